@@ -0,0 +1,251 @@
+/**
+ * Typed Response Cache
+ * Replaces `apiCache: Partial<Record<ApiKey, unknown>>` (template-literal-types.ts) with a
+ * cache where every `ApiKey` keeps its own response type. Supports per-key TTL, LRU
+ * eviction, stale-while-revalidate, de-duplication of concurrent misses and tag-based
+ * invalidation, so a `POST:/users` write invalidates `GET:/users`.
+ */
+
+import type { ApiKey } from "./template-literal-types.js";
+
+// ===== TYPES =====
+
+// Response type per cacheable key, e.g. { "GET:/users": User[] }
+type ResponseMap = { [K in ApiKey]?: unknown };
+
+type PathOfKey<K extends ApiKey> = K extends `${string}:${infer P}` ? P : never;
+
+type CacheOptions<M extends ResponseMap> = {
+  // Maximum number of entries before the least recently used one is evicted
+  maxEntries?: number;
+  defaultTtlMs?: number;
+  ttlMs?: { [K in keyof M]?: number };
+  // How long after expiry a stale value may still be served while it is refreshed
+  staleWhileRevalidateMs?: number;
+  now?: () => number;
+};
+
+type SetOptions = { ttlMs?: number; tags?: string[] };
+
+type Entry = {
+  value: unknown;
+  expiresAt: number;
+  tags: Set<string>;
+};
+
+// A load that hasn't settled yet; `stale` is set when its key or one of its tags is
+// invalidated meanwhile, so the result is returned but not cached
+type Load = {
+  promise: Promise<unknown>;
+  tags: Set<string>;
+  stale: boolean;
+};
+
+export type { ResponseMap, CacheOptions, SetOptions };
+
+// ===== CACHE =====
+
+class ApiCache<M extends ResponseMap> {
+  // Map iteration order doubles as recency order: oldest first
+  private entries = new Map<keyof M, Entry>();
+  private inFlight = new Map<keyof M, Load>();
+  private maxEntries: number;
+  private defaultTtlMs: number;
+  private swrMs: number;
+  private now: () => number;
+
+  constructor(private options: CacheOptions<M> = {}) {
+    this.maxEntries = options.maxEntries ?? 100;
+    this.defaultTtlMs = options.defaultTtlMs ?? 60_000;
+    this.swrMs = options.staleWhileRevalidateMs ?? 0;
+    this.now = options.now ?? Date.now;
+  }
+
+  // Fresh values only; expired entries are treated as misses
+  get<K extends keyof M & ApiKey>(key: K): M[K] | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= this.now()) return undefined;
+    this.touch(key, entry);
+    return entry.value as M[K];
+  }
+
+  // Every entry is tagged with its path, which is what writes to that path invalidate
+  set<K extends keyof M & ApiKey>(key: K, value: M[K], options: SetOptions = {}) {
+    const ttl = options.ttlMs ?? this.options.ttlMs?.[key] ?? this.defaultTtlMs;
+    const tags = new Set([pathOf(key), ...(options.tags ?? [])]);
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: this.now() + ttl, tags });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  // Returns a cached value or loads it. Concurrent misses share a single `loader` call,
+  // and a value inside the stale-while-revalidate window is returned while it refreshes.
+  async fetch<K extends keyof M & ApiKey>(
+    key: K,
+    loader: () => Promise<M[K]>,
+    options: SetOptions = {}
+  ): Promise<M[K]> {
+    const entry = this.entries.get(key);
+    const now = this.now();
+    if (entry && entry.expiresAt > now) {
+      this.touch(key, entry);
+      return entry.value as M[K];
+    }
+    if (entry && entry.expiresAt + this.swrMs > now) {
+      this.touch(key, entry);
+      this.load(key, loader, options).catch(() => {});
+      return entry.value as M[K];
+    }
+    return this.load(key, loader, options);
+  }
+
+  delete(key: keyof M & ApiKey): boolean {
+    this.abandon(key);
+    return this.entries.delete(key);
+  }
+
+  invalidateTag(tag: string): number {
+    for (const [key, load] of this.inFlight) {
+      if (load.tags.has(tag)) this.abandon(key);
+    }
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (entry.tags.has(tag)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  // Call after a mutating request: "POST:/users" invalidates everything tagged "/users"
+  recordWrite(key: ApiKey): number {
+    return key.startsWith("GET:") ? 0 : this.invalidateTag(pathOf(key));
+  }
+
+  clear() {
+    for (const key of this.inFlight.keys()) this.abandon(key);
+    this.entries.clear();
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+
+  private load<K extends keyof M & ApiKey>(
+    key: K,
+    loader: () => Promise<M[K]>,
+    options: SetOptions
+  ): Promise<M[K]> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending.promise as Promise<M[K]>;
+    const load: Load = { promise: Promise.resolve(), tags: new Set([pathOf(key), ...(options.tags ?? [])]), stale: false };
+    const promise = loader()
+      .then((value) => {
+        if (!load.stale) this.set(key, value, options);
+        return value;
+      })
+      .finally(() => {
+        if (this.inFlight.get(key) === load) this.inFlight.delete(key);
+      });
+    load.promise = promise;
+    this.inFlight.set(key, load);
+    return promise;
+  }
+
+  // Invalidated while loading: the result mustn't be cached, and later misses start a new load
+  private abandon(key: keyof M) {
+    const load = this.inFlight.get(key);
+    if (!load) return;
+    load.stale = true;
+    this.inFlight.delete(key);
+  }
+
+  // Moves the entry to the most-recently-used end
+  private touch(key: keyof M, entry: Entry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+}
+
+function pathOf<K extends ApiKey>(key: K): PathOfKey<K> {
+  return key.slice(key.indexOf(":") + 1) as PathOfKey<K>;
+}
+
+export { ApiCache };
+
+// ===== USAGE EXAMPLE =====
+
+if (import.meta.filename === process.argv[1]) {
+  type User = { id: number; name: string };
+  type Post = { id: number; title: string };
+
+  type ApiResponses = {
+    "GET:/users": User[];
+    "GET:/posts": Post[];
+    "POST:/posts": Post;
+  };
+
+  let clock = 0;
+  let userLoads = 0;
+
+  const cache = new ApiCache<ApiResponses>({
+    maxEntries: 50,
+    ttlMs: { "GET:/users": 1_000 },
+    staleWhileRevalidateMs: 5_000,
+    now: () => clock,
+  });
+
+  const loadUsers = async (): Promise<User[]> => {
+    userLoads++;
+    return [{ id: userLoads, name: "John" }];
+  };
+
+  (async () => {
+    // Two concurrent misses -> one loader call
+    const [a, b] = await Promise.all([
+      cache.fetch("GET:/users", loadUsers),
+      cache.fetch("GET:/users", loadUsers),
+    ]);
+    console.log(a === b, "loads:", userLoads); // true loads: 1
+
+    // Past the TTL but inside the SWR window: stale value now, refresh in the background
+    clock = 2_000;
+    const stale = await cache.fetch("GET:/users", loadUsers);
+    console.log("stale id:", stale[0]?.id, "loads:", userLoads); // stale id: 1 loads: 2
+
+    // A write to /users invalidates the cached GET
+    cache.recordWrite("POST:/users");
+    console.log("after write:", cache.get("GET:/users")); // undefined
+
+    cache.set("GET:/posts", [{ id: 1, title: "Hello" }], { tags: ["feed"] });
+    const posts = cache.get("GET:/posts");
+    // posts: Post[] | undefined
+    console.log(posts?.[0]?.title, cache.invalidateTag("feed")); // Hello 1
+
+    // cache.set("GET:/posts", [{ id: 1, name: "John" }]); // Error: not a Post[]
+  })();
+}
+
+// ===== KEY CONCEPTS =====
+
+/*
+ * 1. Typed keys:
+ *    - The response map ties each ApiKey to its own value type
+ *    - get / set / fetch return and accept exactly that type
+ *
+ * 2. Freshness:
+ *    - TTL per key (or per set call), falling back to a default
+ *    - stale-while-revalidate serves an expired value while reloading it
+ *
+ * 3. Size: least recently used entries are evicted beyond maxEntries
+ *
+ * 4. Invalidation:
+ *    - Entries are tagged with their path plus any custom tags
+ *    - recordWrite("POST:/users") drops everything tagged "/users"
+ *
+ * 5. Concurrent misses for the same key share one in-flight request; invalidating
+ *    that key or one of its tags keeps the request's result out of the cache
+ */
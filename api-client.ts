@@ -0,0 +1,332 @@
+/**
+ * Typed HTTP Client
+ * Infers request and response types from an endpoint contract in the spirit of
+ * `endpoints` / `ApiEndpoints` (indexed-access-types.ts): `client.call("GET /users/:id", ...)`
+ * resolves to the declared response type. Adds retries, timeouts, `AbortSignal` support
+ * and a pluggable transport so tests can swap in an in-process fake server.
+ */
+
+import type { ApiResponse } from "./conditional-types.js";
+import type { ApiEndpoints, User } from "./indexed-access-types.js";
+import type { EndpointSpec, PathOf, QueryParams } from "./api-server.js";
+import type { ExtractParams, HttpMethod } from "./template-literal-types.js";
+
+// ===== CONTRACT TYPES =====
+
+type ClientContract<C> = {
+  [K in keyof C]: K extends `${HttpMethod} /${string}` ? EndpointSpec : never;
+};
+
+type BodyOf<S> = S extends { body: infer B } ? B : undefined;
+
+type ResponseOf<S> = S extends { response: infer R } ? R : never;
+
+// `params` / `body` are required exactly when the endpoint declares them
+type CallOptions<K, S> = ({} extends ExtractParams<PathOf<K>>
+  ? { params?: ExtractParams<PathOf<K>> }
+  : { params: ExtractParams<PathOf<K>> }) &
+  ([BodyOf<S>] extends [undefined] ? { body?: undefined } : { body: BodyOf<S> }) & {
+    query?: QueryParams<S extends { query: infer Q } ? Q : undefined>;
+    headers?: Record<string, string>;
+    signal?: AbortSignal;
+    timeoutMs?: number;
+    retry?: Partial<RetryPolicy>;
+  };
+
+// The options argument can be left out when nothing in it is required
+type CallArgs<K, S> = {} extends CallOptions<K, S>
+  ? [options?: CallOptions<K, S>]
+  : [options: CallOptions<K, S>];
+
+type RetryPolicy = {
+  // Extra attempts after the first one
+  attempts: number;
+  // Delay before retry n is backoffMs * 2^(n - 1)
+  backoffMs: number;
+  retryOn: (error: ApiClientError) => boolean;
+  // POST isn't idempotent, so it is never retried unless this is set (e.g. when the server
+  // deduplicates by an idempotency key)
+  retryNonIdempotent: boolean;
+};
+
+// ===== TRANSPORT =====
+
+type TransportRequest = {
+  method: HttpMethod;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+  signal: AbortSignal;
+};
+
+type TransportResponse = { status: number; body: string };
+
+type Transport = (request: TransportRequest) => Promise<TransportResponse>;
+
+export type { ClientContract, CallOptions, RetryPolicy, Transport, TransportRequest, TransportResponse };
+
+function fetchTransport(): Transport {
+  return async ({ method, url, headers, body, signal }) => {
+    const res = await fetch(url, { method, headers, signal, ...(body === undefined ? {} : { body }) });
+    return { status: res.status, body: await res.text() };
+  };
+}
+
+// ===== ERRORS =====
+
+type ClientErrorKind = "http" | "network" | "timeout" | "aborted" | "parse";
+
+class ApiClientError extends Error {
+  constructor(
+    public readonly kind: ClientErrorKind,
+    message: string,
+    // HTTP status, or 0 when no response was received
+    public readonly status = 0
+  ) {
+    super(message);
+    this.name = "ApiClientError";
+  }
+}
+
+// Network failures, timeouts, 429 and 5xx are worth retrying; 4xx and aborts are not
+const defaultRetryOn = (error: ApiClientError) =>
+  error.kind === "network" ||
+  error.kind === "timeout" ||
+  error.status === 429 ||
+  error.status >= 500;
+
+const IDEMPOTENT_METHODS = new Set<HttpMethod>(["GET", "PUT", "DELETE"]);
+
+// ===== CLIENT =====
+
+type ClientOptions = {
+  baseUrl: string;
+  transport?: Transport;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  retry?: Partial<RetryPolicy>;
+};
+
+function buildUrl(baseUrl: string, path: string, params: object = {}, query: object = {}): string {
+  const filled = path.replace(/:(\w+)\??/g, (_, name: string) => {
+    const value = (params as Record<string, string | undefined>)[name];
+    return value === undefined ? "" : encodeURIComponent(value);
+  });
+  const search = new URLSearchParams(query as Record<string, string>).toString();
+  return `${baseUrl.replace(/\/$/, "")}${filled.replace(/\/+$/, "") || "/"}${search ? `?${search}` : ""}`;
+}
+
+// Resolves after `ms`, or rejects with an "aborted" error as soon as `signal` aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new ApiClientError("aborted", "Request aborted"));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiClientError("aborted", "Request aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function isApiResponse(value: unknown): value is ApiResponse<unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const { status } = value as { status?: unknown };
+  return status === "success" ? "data" in value : status === "error" && typeof (value as { error?: unknown }).error === "string";
+}
+
+function createClient<C extends ClientContract<C>>(options: ClientOptions) {
+  const transport = options.transport ?? fetchTransport();
+
+  // One attempt: a fresh timeout linked to the caller's signal
+  async function attempt(request: Omit<TransportRequest, "signal">, timeoutMs: number, signal?: AbortSignal) {
+    if (signal?.aborted) throw new ApiClientError("aborted", "Request aborted");
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const timer = setTimeout(() => controller.abort(new ApiClientError("timeout", `Timed out after ${timeoutMs}ms`)), timeoutMs);
+
+    let response: TransportResponse;
+    try {
+      response = await transport({ ...request, signal: controller.signal });
+    } catch (e) {
+      if (signal?.aborted) throw new ApiClientError("aborted", "Request aborted");
+      if (controller.signal.reason instanceof ApiClientError) throw controller.signal.reason;
+      throw new ApiClientError("network", e instanceof Error ? e.message : String(e));
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+
+    const failed = response.status >= 400;
+    // 204 No Content, or any other empty success, has no envelope to unwrap
+    if (response.status === 204 || response.body === "") {
+      if (failed) throw new ApiClientError("http", `HTTP ${response.status}`, response.status);
+      return undefined;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(response.body);
+    } catch {
+      // An error page from a proxy is still an HTTP error, not a parse failure
+      if (failed) throw new ApiClientError("http", `HTTP ${response.status}`, response.status);
+      throw new ApiClientError("parse", `Invalid JSON in ${response.status} response`, response.status);
+    }
+    if (!isApiResponse(payload)) {
+      if (failed) throw new ApiClientError("http", `HTTP ${response.status}`, response.status);
+      throw new ApiClientError("parse", `${response.status} response is not an ApiResponse`, response.status);
+    }
+    if (payload.status === "error" || failed) {
+      const message = payload.status === "error" ? payload.error : `HTTP ${response.status}`;
+      throw new ApiClientError("http", message, response.status);
+    }
+    return payload.data;
+  }
+
+  async function call<K extends keyof C & string>(
+    endpoint: K,
+    ...[callOptions]: CallArgs<K, C[K]>
+  ): Promise<ResponseOf<C[K]>> {
+    const opts = (callOptions ?? {}) as CallOptions<K, C[K]>;
+    const [method, path = "/"] = endpoint.split(" ", 2) as [HttpMethod, string];
+    const policy: RetryPolicy = {
+      attempts: 0,
+      backoffMs: 100,
+      retryOn: defaultRetryOn,
+      retryNonIdempotent: false,
+      ...options.retry,
+      ...opts.retry,
+    };
+    const retryable = IDEMPOTENT_METHODS.has(method) || policy.retryNonIdempotent;
+    const request = {
+      method,
+      url: buildUrl(options.baseUrl, path, opts.params, opts.query),
+      headers: {
+        Accept: "application/json",
+        ...(opts.body === undefined ? {} : { "Content-Type": "application/json" }),
+        ...options.headers,
+        ...opts.headers,
+      },
+      ...(opts.body === undefined ? {} : { body: JSON.stringify(opts.body) }),
+    };
+
+    for (let n = 0; ; n++) {
+      try {
+        return (await attempt(request, opts.timeoutMs ?? options.timeoutMs ?? 10_000, opts.signal)) as ResponseOf<C[K]>;
+      } catch (e) {
+        const error = e as ApiClientError;
+        if (!retryable || n >= policy.attempts || !policy.retryOn(error)) throw error;
+        await sleep(policy.backoffMs * 2 ** n, opts.signal);
+      }
+    }
+  }
+
+  return { call };
+}
+
+// In-process fake server for tests: routes "METHOD /path" keys to handlers, no sockets involved
+function fakeTransport(
+  routes: Record<string, (req: TransportRequest, params: Record<string, string>) => TransportResponse | Promise<TransportResponse>>
+): Transport {
+  return async (req) => {
+    const { pathname } = new URL(req.url);
+    for (const [key, handler] of Object.entries(routes)) {
+      const [method, pattern = ""] = key.split(" ", 2);
+      if (method !== req.method) continue;
+      const names: string[] = [];
+      const regex = new RegExp(
+        "^" + pattern.replace(/:(\w+)/g, (_, name: string) => (names.push(name), "([^/]+)")) + "$"
+      );
+      const match = regex.exec(pathname);
+      if (match) {
+        const params = Object.fromEntries(names.map((name, i) => [name, decodeURIComponent(match[i + 1]!)]));
+        return handler(req, params);
+      }
+    }
+    return { status: 404, body: JSON.stringify({ status: "error", error: "Not Found" }) };
+  };
+}
+
+export { createClient, fetchTransport, fakeTransport, ApiClientError };
+
+// ===== USAGE EXAMPLE =====
+
+if (import.meta.filename === process.argv[1]) {
+  // The `ApiEndpoints` methods from indexed-access-types.ts, expressed as HTTP endpoints
+  type UserApi = {
+    "GET /users": { query: "active=true" | "active=false"; response: Awaited<ReturnType<ApiEndpoints["getUsers"]>> };
+    "GET /users/:id": { response: Awaited<ReturnType<ApiEndpoints["getUser"]>> };
+    "GET /config": { response: ReturnType<ApiEndpoints["getConfig"]> };
+    "POST /users": { body: Omit<User, "id">; response: User };
+  };
+
+  const ada: User = { id: 1, name: "Ada", email: "ada@example.com", isActive: true };
+  let flakyCalls = 0;
+
+  const ok = (data: unknown): TransportResponse => ({ status: 200, body: JSON.stringify({ status: "success", data }) });
+
+  const client = createClient<UserApi>({
+    baseUrl: "https://api.example.com",
+    retry: { attempts: 2, backoffMs: 10 },
+    transport: fakeTransport({
+      "GET /users/:id": (_, { id }) =>
+        id === "1" ? ok(ada) : { status: 404, body: JSON.stringify({ status: "error", error: `User ${id} not found` }) },
+      // Fails once with 503 to exercise the retry policy
+      "GET /users": () =>
+        ++flakyCalls === 1 ? { status: 503, body: JSON.stringify({ status: "error", error: "busy" }) } : ok([ada]),
+      "POST /users": (req) => ok({ id: 2, ...JSON.parse(req.body ?? "{}") }),
+    }),
+  });
+
+  (async () => {
+    const user = await client.call("GET /users/:id", { params: { id: "1" } });
+    // user: User
+    console.log(user.name);
+
+    const users = await client.call("GET /users", { query: { active: "true" } });
+    // users: User[] (after one retried 503)
+    console.log(users.length, "attempts:", flakyCalls);
+
+    const created = await client.call("POST /users", {
+      body: { name: "Linus", email: "linus@example.com", isActive: false },
+    });
+    console.log(created.id);
+
+    try {
+      await client.call("GET /users/:id", { params: { id: "99" } });
+    } catch (e) {
+      if (e instanceof ApiClientError) console.log(e.kind, e.status, e.message);
+      // http 404 User 99 not found
+    }
+
+    const controller = new AbortController();
+    controller.abort();
+    await client.call("GET /config", { signal: controller.signal }).catch((e: ApiClientError) => console.log(e.kind));
+    // aborted
+  })();
+}
+
+// ===== KEY CONCEPTS =====
+
+/*
+ * 1. Inference from a contract:
+ *    - The endpoint key picks the spec; ResponseOf<C[K]> is the resolved type
+ *    - params are required only for keys with ":param" segments
+ *    - body is required only when the spec declares one
+ *
+ * 2. Reliability:
+ *    - Each attempt has its own timeout
+ *    - Retries use exponential backoff and only for retryable failures
+ *    - POST is only retried when retryNonIdempotent opts in
+ *    - AbortSignal cancels the in-flight attempt and any pending backoff
+ *
+ * 3. Pluggable transport:
+ *    - fetchTransport() for real HTTP
+ *    - fakeTransport() serves requests in-process for tests
+ *
+ * 4. Errors are ApiClientError with a kind: http, network, timeout, aborted or parse
+ */
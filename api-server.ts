@@ -0,0 +1,284 @@
+/**
+ * Contract-First HTTP Server
+ * Declares request/response types per endpoint, keyed by `ApiEndpointType` strings
+ * (template-literal-types.ts), then serves them from a Node `http` server. Every response
+ * uses the `ApiResponse` success/error shape from conditional-types.ts.
+ */
+
+import * as http from "node:http";
+import { RouteError, Router } from "./router.js";
+import { ValidationError, schema } from "./schema.js";
+import type { ApiResponse } from "./conditional-types.js";
+import type { Method } from "./router.js";
+import type { Schema } from "./schema.js";
+import type {
+  ApiEndpointType,
+  ExtractParams,
+  HttpMethod,
+  ParseQuery,
+} from "./template-literal-types.js";
+
+// ===== CONTRACT TYPES =====
+
+// "GET /users" plus sub-paths such as "GET /users/:id"
+type EndpointKey = ApiEndpointType | `${ApiEndpointType}/${string}`;
+
+type EndpointSpec = {
+  body?: unknown;
+  // ParseQuery-style "key=value" patterns, e.g. "role=admin" | "role=member"
+  query?: string;
+  response: unknown;
+};
+
+type ApiContract<C> = { [K in keyof C]: K extends EndpointKey ? EndpointSpec : never };
+
+type PathOf<K> = K extends `${HttpMethod} ${infer P}` ? P : never;
+
+// Each "key=value" pattern becomes an optional key whose type is the union of its values
+type QueryParams<Q> = [Q] extends [string]
+  ? { [E in ParseQuery<Q> as E["key"]]?: E["value"] }
+  : {};
+
+type HandlerRequest<K, S extends EndpointSpec> = {
+  params: ExtractParams<PathOf<K>>;
+  query: QueryParams<S["query"]>;
+  body: S["body"];
+  headers: http.IncomingHttpHeaders;
+};
+
+// One handler per contract entry: missing, extra or mistyped handlers fail to compile
+type ApiHandlers<C extends ApiContract<C>> = {
+  [K in keyof C]: (req: HandlerRequest<K, C[K]>) => C[K]["response"] | Promise<C[K]["response"]>;
+};
+
+// Anything with a schema.ts-style validate(), such as schema.object({ ... })
+type Validator<T> = Pick<Schema<T>, "validate">;
+
+type EndpointSchemas<S> = (S extends { body: infer B } ? { body: Validator<B> } : {}) &
+  (S extends { query: infer Q } ? { query: Validator<QueryParams<Q>> } : {});
+
+// Types vanish at runtime, so every endpoint that declares a body or query also needs a
+// validator for it; requests that don't pass get a 400 before the handler runs
+type ApiSchemas<C extends ApiContract<C>> = {
+  [K in keyof C as keyof EndpointSchemas<C[K]> extends never ? never : K]: EndpointSchemas<C[K]>;
+};
+
+export type { EndpointKey, EndpointSpec, ApiContract, HandlerRequest, ApiHandlers, Validator, ApiSchemas, QueryParams, PathOf };
+
+// Thrown by handlers to send an error response with a specific status code
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+// ===== SERVER =====
+
+type CompiledRoute = {
+  handler: (req: {
+    params: Record<string, string>;
+    query: unknown;
+    body: unknown;
+    headers: http.IncomingHttpHeaders;
+  }) => unknown;
+  schemas: { body?: Validator<unknown>; query?: Validator<unknown> };
+};
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Request body too large");
+    chunks.push(chunk as Buffer);
+  }
+  if (size === 0) return undefined;
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+}
+
+function validate(validator: Validator<unknown> | undefined, value: unknown, what: string): unknown {
+  if (!validator) return value;
+  const result = validator.validate(value);
+  if (!result.ok) throw new HttpError(400, `Invalid ${what}: ${new ValidationError(result.error).message}`);
+  return result.value;
+}
+
+// Serializes before writing the head, so a payload JSON can't encode (a BigInt, a cycle)
+// throws while a 500 can still be sent instead
+function send(res: http.ServerResponse, status: number, payload: ApiResponse<unknown>, headers = {}) {
+  const body = JSON.stringify(payload);
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(body);
+}
+
+function createApiServer<C extends ApiContract<C>>(
+  handlers: ApiHandlers<C>,
+  ...[schemas]: keyof ApiSchemas<C> extends never ? [schemas?: ApiSchemas<C>] : [schemas: ApiSchemas<C>]
+): http.Server {
+  const router = new Router<{ route: CompiledRoute; params: Record<string, string> }>();
+  for (const [key, handler] of Object.entries(handlers)) {
+    const [method = "", path = ""] = key.split(" ", 2);
+    const route: CompiledRoute = {
+      handler: handler as CompiledRoute["handler"],
+      schemas: (schemas as Record<string, CompiledRoute["schemas"]> | undefined)?.[key] ?? {},
+    };
+    router.on(method as Method, path, ({ params }) => ({ route, params }));
+  }
+
+  return http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      try {
+        decodeURIComponent(url.pathname);
+      } catch {
+        throw new HttpError(400, "Malformed percent-encoding in path");
+      }
+
+      const { route, params } = router.handle(req.method as Method, url.pathname);
+      const data = await route.handler({
+        params,
+        query: validate(route.schemas.query, Object.fromEntries(url.searchParams), "query"),
+        body: validate(route.schemas.body, await readJsonBody(req), "request body"),
+        headers: req.headers,
+      });
+      send(res, req.method === "POST" ? 201 : 200, { status: "success", data });
+    } catch (e) {
+      // Too late for an error response once the head is out; cut the connection instead of hanging
+      if (res.headersSent) return void res.destroy(e instanceof Error ? e : undefined);
+      if (e instanceof HttpError) return send(res, e.status, { status: "error", error: e.message });
+      if (e instanceof RouteError && e.status === 405) {
+        return send(res, 405, { status: "error", error: "Method Not Allowed" }, { Allow: e.allow.join(", ") });
+      }
+      if (e instanceof RouteError) {
+        return send(res, 404, { status: "error", error: `No endpoint for ${req.method} ${req.url?.split("?")[0]}` });
+      }
+      send(res, 500, { status: "error", error: "Internal Server Error" });
+    }
+  });
+}
+
+// Listens on localhost (port 0 picks a free port) and resolves with the base URL
+function listen(server: http.Server, port = 0): Promise<string> {
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, "127.0.0.1", () => {
+      const address = server.address();
+      resolve(typeof address === "object" && address ? `http://127.0.0.1:${address.port}` : "");
+    });
+  });
+}
+
+export { createApiServer, listen, HttpError };
+
+// ===== USAGE EXAMPLE =====
+
+if (import.meta.filename === process.argv[1]) {
+  interface User {
+    id: number;
+    name: string;
+    role: "admin" | "member";
+  }
+
+  type UsersContract = {
+    "GET /users": { query: "role=admin" | "role=member"; response: User[] };
+    "POST /users": { body: Omit<User, "id">; response: User };
+    "GET /users/:id": { response: User };
+    "DELETE /users/:id": { response: { deleted: true } };
+  };
+
+  const users: User[] = [{ id: 1, name: "Ada", role: "admin" }];
+  const role = schema.union(schema.literal("admin"), schema.literal("member"));
+
+  const server = createApiServer<UsersContract>(
+    {
+      "GET /users": ({ query }) => {
+        // query: { role?: "admin" | "member" }
+        return query.role ? users.filter((u) => u.role === query.role) : users;
+      },
+      "POST /users": ({ body }) => {
+        const user = { ...body, id: users.length + 1 };
+        users.push(user);
+        return user;
+      },
+      "GET /users/:id": ({ params }) => {
+        // params: { id: string }
+        const user = users.find((u) => u.id === Number(params.id));
+        if (!user) throw new HttpError(404, `User ${params.id} not found`);
+        return user;
+      },
+      "DELETE /users/:id": ({ params }) => {
+        const index = users.findIndex((u) => u.id === Number(params.id));
+        if (index === -1) throw new HttpError(404, `User ${params.id} not found`);
+        users.splice(index, 1);
+        return { deleted: true };
+      },
+    },
+    // Required: these two endpoints declare a query and a body
+    {
+      "GET /users": { query: schema.object({ role: role.optional() }) },
+      "POST /users": { body: schema.object({ name: schema.string(), role }) },
+    }
+  );
+
+  // Exercise the server against localhost, then shut it down
+  listen(server).then(async (baseUrl) => {
+    const created = await fetch(`${baseUrl}/users`, {
+      method: "POST",
+      body: JSON.stringify({ name: "Linus", role: "member" }),
+    });
+    console.log(created.status, await created.json());
+    // 201 { status: "success", data: { name: "Linus", role: "member", id: 2 } }
+
+    const members = await fetch(`${baseUrl}/users?role=member`);
+    console.log(await members.json());
+
+    const missing = await fetch(`${baseUrl}/users/99`);
+    console.log(missing.status, await missing.json());
+    // 404 { status: "error", error: "User 99 not found" }
+
+    const wrongMethod = await fetch(`${baseUrl}/users/1`, { method: "PUT" });
+    console.log(wrongMethod.status, wrongMethod.headers.get("allow"));
+    // 405 DELETE, GET
+
+    for (const [path, init] of [
+      ["/users", { method: "POST" }],
+      ["/users?role=hacker", {}],
+      ["/users/%E0%A4%A", {}],
+    ] as const) {
+      const rejected = await fetch(baseUrl + path, init);
+      console.log(rejected.status, (await rejected.json()).error);
+    }
+    // 400 Invalid request body: (root): expected object
+    // 400 Invalid query: role: expected "admin"; role: expected "member"
+    // 400 Malformed percent-encoding in path
+
+    server.close();
+  });
+}
+
+// ===== KEY CONCEPTS =====
+
+/*
+ * 1. Contract first:
+ *    - The contract type maps "METHOD /path" keys to body, query and response types
+ *    - ApiHandlers<C> requires exactly one correctly typed handler per key
+ *
+ * 2. Typed inputs:
+ *    - params come from ExtractParams on the path part of the key
+ *    - query comes from ParseQuery-style "key=value" patterns
+ *    - body is parsed as JSON (400 on malformed input, 413 when too large)
+ *    - body and query are validated at runtime by the schemas passed alongside
+ *      the handlers, so a handler never sees input its types don't describe
+ *
+ * 3. Uniform responses:
+ *    - success -> { status: "success", data } (201 for POST)
+ *    - HttpError -> { status: "error", error } with its status code
+ *    - unknown path -> 404, known path with another method -> 405 + Allow header
+ */
@@ -0,0 +1,258 @@
+/**
+ * Color Utilities
+ * Runtime support for `HexColor` (template-literal-types.ts), which only covers six
+ * uppercase digits. Parses `#rgb`, `#rgba`, `#rrggbb`, `#rrggbbaa`, `rgb()` and `hsl()`
+ * strings into a `Color`, converts between RGB, HSL and hex, adjusts lightness, mixes
+ * colors and computes WCAG 2 contrast ratios.
+ */
+
+import type { HexColor } from "./template-literal-types.js";
+
+// ===== TYPES =====
+
+// Channels are 0-255, alpha is 0-1
+type Color = { r: number; g: number; b: number; a: number };
+
+// Hue in degrees (0-360), saturation and lightness in percent (0-100)
+type Hsl = { h: number; s: number; l: number; a: number };
+
+type WcagLevel = "AA" | "AAA";
+
+type TextSize = "normal" | "large";
+
+export type { Color, Hsl, WcagLevel, TextSize };
+
+class ColorError extends Error {
+  constructor(public readonly input: string, reason: string) {
+    super(`Invalid color "${input}": ${reason}`);
+    this.name = "ColorError";
+  }
+}
+
+// ===== PARSING =====
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const round = (value: number, digits = 0) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+function parseHex(input: string, digits: string): Color {
+  if (!/^[0-9a-f]+$/i.test(digits) || ![3, 4, 6, 8].includes(digits.length)) {
+    throw new ColorError(input, "expected 3, 4, 6 or 8 hex digits");
+  }
+  // "#f80" -> "ff8800"
+  const full = digits.length <= 4 ? [...digits].map((d) => d + d).join("") : digits;
+  const channel = (i: number) => parseInt(full.slice(i * 2, i * 2 + 2), 16);
+  return { r: channel(0), g: channel(1), b: channel(2), a: full.length === 8 ? round(channel(3) / 255, 3) : 1 };
+}
+
+// Accepts both "1, 2, 3" / "1, 2, 3, 0.5" and the modern "1 2 3 / 50%" syntax
+function splitArgs(input: string, body: string): { values: string[]; alpha?: string } {
+  const [main = "", alpha, extra] = body.split("/").map((part) => part.trim());
+  if (extra !== undefined) throw new ColorError(input, "more than one '/'");
+  const values = main.split(/\s*,\s*|\s+/).filter(Boolean);
+  if (alpha === undefined && values.length === 4) return { values: values.slice(0, 3), alpha: values[3]! };
+  if (values.length !== 3) throw new ColorError(input, "expected three components");
+  return alpha === undefined ? { values } : { values, alpha };
+}
+
+function number(input: string, text: string): number {
+  const value = Number(text);
+  if (text === "" || !Number.isFinite(value)) throw new ColorError(input, `"${text}" is not a number`);
+  return value;
+}
+
+// "50%" -> 0.5 * scale, plain numbers are taken as-is
+function scaled(input: string, text: string, scale: number): number {
+  return text.endsWith("%") ? (number(input, text.slice(0, -1)) / 100) * scale : number(input, text);
+}
+
+function parseAlpha(input: string, text?: string): number {
+  return text === undefined ? 1 : clamp(scaled(input, text, 1), 0, 1);
+}
+
+function parseHue(input: string, text: string): number {
+  const match = /^(-?[\d.]+)(deg|turn|rad)?$/.exec(text);
+  if (!match) throw new ColorError(input, `"${text}" is not a hue`);
+  const value = number(input, match[1]!);
+  const degrees = match[2] === "turn" ? value * 360 : match[2] === "rad" ? (value * 180) / Math.PI : value;
+  return ((degrees % 360) + 360) % 360;
+}
+
+function parseColor(input: string): Color {
+  const text = input.trim().toLowerCase();
+  if (text.startsWith("#")) return parseHex(input, text.slice(1));
+
+  const match = /^(rgba?|hsla?)\((.*)\)$/.exec(text);
+  if (!match) throw new ColorError(input, "expected #hex, rgb() or hsl()");
+  const { values, alpha } = splitArgs(input, match[2]!);
+  const [x = "", y = "", z = ""] = values;
+
+  if (match[1]!.startsWith("rgb")) {
+    const channel = (value: string) => clamp(round(scaled(input, value, 255)), 0, 255);
+    return { r: channel(x), g: channel(y), b: channel(z), a: parseAlpha(input, alpha) };
+  }
+  if (!y.endsWith("%") || !z.endsWith("%")) throw new ColorError(input, "saturation and lightness must be percentages");
+  return hslToRgb({
+    h: parseHue(input, x),
+    s: clamp(number(input, y.slice(0, -1)), 0, 100),
+    l: clamp(number(input, z.slice(0, -1)), 0, 100),
+    a: parseAlpha(input, alpha),
+  });
+}
+
+// Grants the `HexColor` brand: "#" plus six uppercase hex digits. The brand stays that strict
+// so one color has one HexColor spelling (style.ts hashes class names from the values);
+// other hex forms are accepted by toHexColor, which normalizes them first.
+function isHexColor(value: unknown): value is HexColor {
+  return typeof value === "string" && /^#[0-9A-F]{6}$/.test(value);
+}
+
+// "#f80", "#ff8800" and "#FF8800FF" all give "#FF8800"; undefined for translucent colors
+// and anything that isn't a hex color
+function toHexColor(value: string): HexColor | undefined {
+  if (!value.startsWith("#")) return undefined;
+  try {
+    const hex = toHex(parseHex(value, value.slice(1)));
+    return isHexColor(hex) ? hex : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// ===== CONVERSION =====
+
+function rgbToHsl({ r, g, b, a }: Color): Hsl {
+  const [rn, gn, bn] = [r / 255, g / 255, b / 255];
+  const max = Math.max(rn, gn, bn);
+  const min = Math.min(rn, gn, bn);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return { h: 0, s: 0, l: round(l * 100, 2), a };
+  const s = d / (1 - Math.abs(2 * l - 1));
+  const h =
+    max === rn ? ((gn - bn) / d + (gn < bn ? 6 : 0)) * 60 : max === gn ? ((bn - rn) / d + 2) * 60 : ((rn - gn) / d + 4) * 60;
+  return { h: round(h, 2), s: round(s * 100, 2), l: round(l * 100, 2), a };
+}
+
+function hslToRgb({ h, s, l, a }: Hsl): Color {
+  const sn = s / 100;
+  const ln = l / 100;
+  const k = (n: number) => (n + h / 30) % 12;
+  const f = (n: number) => ln - sn * Math.min(ln, 1 - ln) * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return { r: round(f(0) * 255), g: round(f(8) * 255), b: round(f(4) * 255), a };
+}
+
+const hexByte = (value: number) => round(clamp(value, 0, 255)).toString(16).padStart(2, "0").toUpperCase();
+
+// Six digits for opaque colors, which always satisfies isHexColor; eight when translucent
+function toHex(color: Color): string {
+  const hex = `#${hexByte(color.r)}${hexByte(color.g)}${hexByte(color.b)}`;
+  return color.a < 1 ? hex + hexByte(color.a * 255) : hex;
+}
+
+function toRgbString({ r, g, b, a }: Color): string {
+  return a < 1 ? `rgb(${r} ${g} ${b} / ${round(a, 3)})` : `rgb(${r} ${g} ${b})`;
+}
+
+function toHslString(color: Color): string {
+  const { h, s, l, a } = rgbToHsl(color);
+  const body = `${round(h, 1)} ${round(s, 1)}% ${round(l, 1)}%`;
+  return a < 1 ? `hsl(${body} / ${round(a, 3)})` : `hsl(${body})`;
+}
+
+// ===== ADJUSTMENTS =====
+
+// `amount` is in lightness percentage points (0-100), as in Sass
+function lighten(color: Color, amount: number): Color {
+  const hsl = rgbToHsl(color);
+  return hslToRgb({ ...hsl, l: clamp(hsl.l + amount, 0, 100) });
+}
+
+function darken(color: Color, amount: number): Color {
+  return lighten(color, -amount);
+}
+
+// `weight` is the share of `b`: 0 returns `a`, 1 returns `b`
+function mix(a: Color, b: Color, weight = 0.5): Color {
+  const w = clamp(weight, 0, 1);
+  const lerp = (x: number, y: number) => x + (y - x) * w;
+  return { r: round(lerp(a.r, b.r)), g: round(lerp(a.g, b.g)), b: round(lerp(a.b, b.b)), a: round(lerp(a.a, b.a), 3) };
+}
+
+// ===== CONTRAST (WCAG 2.x) =====
+
+function relativeLuminance({ r, g, b }: Color): number {
+  const linear = (channel: number) => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+}
+
+// 1 (no contrast) to 21 (black on white); alpha is ignored
+function contrastRatio(a: Color, b: Color): number {
+  const [light, dark] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x) as [number, number];
+  return round((light + 0.05) / (dark + 0.05), 2);
+}
+
+const MIN_CONTRAST: Record<WcagLevel, Record<TextSize, number>> = {
+  AA: { normal: 4.5, large: 3 },
+  AAA: { normal: 7, large: 4.5 },
+};
+
+function meetsContrast(foreground: Color, background: Color, level: WcagLevel = "AA", size: TextSize = "normal"): boolean {
+  return contrastRatio(foreground, background) >= MIN_CONTRAST[level][size];
+}
+
+export { parseColor, isHexColor, toHexColor, rgbToHsl, hslToRgb, toHex, toRgbString, toHslString, lighten, darken, mix, contrastRatio, meetsContrast, ColorError };
+
+// ===== USAGE EXAMPLE =====
+
+if (import.meta.filename === process.argv[1]) {
+  const brand = parseColor("#f80");
+  console.log(brand, toHex(brand)); // { r: 255, g: 136, b: 0, a: 1 } #FF8800
+
+  console.log(toHex(parseColor("rgb(255 0 0 / 50%)"))); // #FF000080
+  console.log(toHex(parseColor("hsl(210, 50%, 40%)")), toHslString(parseColor("#336699"))); // #336699 hsl(210 50% 40%)
+
+  const hex = toHex(darken(brand, 10));
+  if (isHexColor(hex)) {
+    const swatch: HexColor = hex;
+    console.log("swatch", swatch); // swatch #CC6D00
+  }
+  console.log(isHexColor("#ff8800"), isHexColor("#FF8800")); // false true
+  console.log(toHexColor("#ff8800"), toHexColor("#f80f"), toHexColor("#f808")); // #FF8800 #FF8800 undefined
+
+  const white = parseColor("#FFF");
+  const text = parseColor("#767676");
+  console.log(contrastRatio(text, white), meetsContrast(text, white)); // 4.54 true
+  console.log(meetsContrast(brand, white, "AA", "large"), contrastRatio(parseColor("#000"), white)); // false 21
+
+  console.log(toRgbString(mix(parseColor("#F00"), parseColor("#00F"), 0.25))); // rgb(191 0 64)
+  console.log(toHex(lighten(parseColor("hsla(0, 0%, 20%, 0.5)"), 30))); // #80808080
+
+  try {
+    parseColor("red");
+  } catch (e) {
+    console.log((e as Error).message); // Invalid color "red": expected #hex, rgb() or hsl()
+  }
+}
+
+// ===== KEY CONCEPTS =====
+
+/*
+ * 1. One internal representation (RGBA) behind many input formats:
+ *    - #rgb, #rgba, #rrggbb, #rrggbbaa (any case)
+ *    - rgb()/rgba() and hsl()/hsla(), comma or space separated, with / alpha
+ *
+ * 2. isHexColor narrows to the stricter, branded HexColor type;
+ *    toHexColor normalizes any opaque hex form into it
+ *
+ * 3. lighten / darken work in HSL space; mix interpolates RGBA channels
+ *
+ * 4. WCAG contrast uses relative luminance:
+ *    - AA needs 4.5:1 (3:1 for large text), AAA needs 7:1 (4.5:1)
+ */
@@ -185,11 +185,19 @@ type UserStrings = PickByType<User, string>;
 // Result: { name: string; email: string }
 
 // Example 19: Deep readonly check
-type DeepReadonly<T> = {
-  readonly [K in keyof T]: T[K] extends object 
-    ? DeepReadonly<T[K]> 
-    : T[K];
-};
+// (deepFreeze in deep.ts returns this type)
+// Functions, Dates and typed arrays pass through, and collections keep their read methods
+export type DeepReadonly<T> = T extends (...args: any[]) => unknown
+  ? T
+  : T extends Date | ArrayBufferView
+    ? T
+    : T extends ReadonlyMap<infer K, infer V>
+      ? ReadonlyMap<DeepReadonly<K>, DeepReadonly<V>>
+      : T extends ReadonlySet<infer V>
+        ? ReadonlySet<DeepReadonly<V>>
+        : T extends object
+          ? { readonly [K in keyof T]: DeepReadonly<T[K]> }
+          : T;
 
 interface Address {
   street: string;
@@ -216,11 +224,11 @@ type FuncsIntersection = UnionToIntersection<FuncsUnion>;
 // ===== API RESPONSE HANDLING =====
 
 // Example 21: Extract success/error types
-type ApiResponse<T> = 
+export type ApiResponse<T> = 
   | { status: "success"; data: T }
   | { status: "error"; error: string };
 
-type SuccessType<T> = T extends ApiResponse<infer U> 
+export type SuccessType<T> = T extends ApiResponse<infer U> 
   ? U 
   : never;
 
@@ -276,14 +284,15 @@ type YesOpposite = Opposite<"yes">;
 // ===== STATE MACHINE PATTERNS =====
 
 // Example 27: State transition validation
-type ValidTransitions = {
+// (state-machine.ts runs this table as an executable machine)
+export type ValidTransitions = {
   idle: "loading" | "error";
   loading: "success" | "error";
   success: "idle";
   error: "idle" | "loading";
 };
 
-type CanTransition<From extends keyof ValidTransitions, To extends string> =
+export type CanTransition<From extends keyof ValidTransitions, To extends string> =
   To extends ValidTransitions[From] ? true : false;
 
 type IdleToLoading = CanTransition<"idle", "loading">;
@@ -293,12 +302,13 @@ type IdleToSuccess = CanTransition<"idle", "success">;
 // Result: false
 
 // Example 28: Action handler resolution
-type Action = 
+// (store.ts derives action creators and exhaustive reducers from this union)
+export type Action =
   | { type: "FETCH"; payload: string }
   | { type: "SAVE"; payload: User }
   | { type: "DELETE"; payload: number };
 
-type ActionPayload<T extends Action> = T extends { type: infer Type; payload: infer P }
+export type ActionPayload<T extends Action> = T extends { type: infer Type; payload: infer P }
   ? Type extends "FETCH" ? string
   : Type extends "SAVE" ? User
   : Type extends "DELETE" ? number
@@ -339,7 +349,8 @@ type JustString = IsUnion<string>;
 // ===== ADVANCED PATTERNS =====
 
 // Example 32: Recursive type traversal
-type JsonValue = 
+// (json.ts enforces this at runtime in a strict parse/stringify pair)
+export type JsonValue =
   | string
   | number
   | boolean
@@ -347,7 +358,7 @@ type JsonValue =
   | JsonValue[]
   | { [key: string]: JsonValue };
 
-type IsValidJson<T> = T extends JsonValue ? true : false;
+export type IsValidJson<T> = T extends JsonValue ? true : false;
 
 type ValidJson = IsValidJson<{ name: string; age: number; active: boolean }>;
 // Result: true
@@ -0,0 +1,265 @@
+/**
+ * Typed Configuration Loader
+ * Builds a `Config` (indexed-access-types.ts) from layered sources — defaults, a JSON file,
+ * `APP_*` environment variables (the `EnvVars` convention from template-literal-types.ts)
+ * and CLI flags — coercing and validating each value against its declared type.
+ */
+
+import * as fs from "node:fs";
+import type { Config } from "./indexed-access-types.js";
+import type { EnvVars } from "./template-literal-types.js";
+
+// ===== TYPES =====
+
+type ConfigValue = string | number | boolean;
+
+// Later sources override earlier ones
+type ConfigSource = "defaults" | "file" | "env" | "cli" | "update";
+
+type ConfigIssue = { key: string; source: ConfigSource; message: string };
+
+class ConfigError extends Error {
+  constructor(public readonly issues: ConfigIssue[]) {
+    super(
+      "Invalid configuration:\n" +
+        issues.map((i) => `  - ${i.key} (${i.source}): ${i.message}`).join("\n")
+    );
+    this.name = "ConfigError";
+  }
+}
+
+// One entry per key, so `value` and `previous` are typed by that key
+type ConfigChange<T> = {
+  [K in keyof T]: { key: K; value: T[K]; previous: T[K] };
+}[keyof T];
+
+type ConfigOptions<T> = {
+  // Every key needs a default; its runtime type drives coercion of env and CLI strings
+  defaults: T;
+  // Optional JSON file; a missing file is skipped
+  file?: string;
+  env?: Partial<Record<string, string>>;
+  // e.g. ["--timeout=10000", "--timeout", "10000", "--debug", "--no-debug"]
+  argv?: string[];
+  // Return an error message to reject a value
+  validate?: { [K in keyof T]?: (value: T[K]) => string | undefined };
+};
+
+export type { ConfigValue, ConfigSource, ConfigIssue, ConfigChange, ConfigOptions };
+
+// ===== COERCION =====
+
+function envKey<T>(key: keyof T & string): keyof EnvVars<T> & string {
+  return `APP_${key.toUpperCase()}` as keyof EnvVars<T> & string;
+}
+
+// Turns a raw string into the type of `sample`, or returns an error message
+function coerce(raw: string, sample: ConfigValue): ConfigValue | { error: string } {
+  switch (typeof sample) {
+    case "number": {
+      const n = Number(raw);
+      return raw.trim() !== "" && Number.isFinite(n) ? n : { error: `expected a number, got "${raw}"` };
+    }
+    case "boolean": {
+      const normalized = raw.trim().toLowerCase();
+      if (["true", "1", "yes", "on"].includes(normalized)) return true;
+      if (["false", "0", "no", "off"].includes(normalized)) return false;
+      return { error: `expected a boolean, got "${raw}"` };
+    }
+    default:
+      return raw;
+  }
+}
+
+// `--key value` only consumes the next argument for non-boolean keys, so `--debug file.txt`
+// leaves file.txt alone; booleans use `--debug`, `--no-debug` or `--debug=false`
+function parseArgv(argv: string[], takesValue: (name: string) => boolean): Map<string, string> {
+  const flags = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const match = /^--(no-)?([^=]+)(?:=(.*))?$/.exec(argv[i]!);
+    if (!match) continue;
+    const [, negated, name, value] = match;
+    if (negated) flags.set(name!, "false");
+    else if (value !== undefined) flags.set(name!, value);
+    else if (takesValue(name!) && i + 1 < argv.length && !argv[i + 1]!.startsWith("--")) flags.set(name!, argv[++i]!);
+    else flags.set(name!, "true");
+  }
+  return flags;
+}
+
+// ===== LOADER =====
+
+function loadConfig<T extends { [K in keyof T]: ConfigValue }>(options: ConfigOptions<T>) {
+  const { defaults, file, env = process.env, argv = process.argv.slice(2) } = options;
+  const keys = Object.keys(defaults) as (keyof T & string)[];
+  const overrides: Partial<T> = {};
+  const subscribers = new Set<(change: ConfigChange<T>) => void>();
+
+  function check<K extends keyof T & string>(
+    key: K,
+    value: unknown,
+    source: ConfigSource,
+    issues: ConfigIssue[]
+  ): value is T[K] {
+    if (typeof value !== typeof defaults[key]) {
+      issues.push({ key, source, message: `expected ${typeof defaults[key]}, got ${typeof value}` });
+      return false;
+    }
+    const message = options.validate?.[key]?.(value as T[K]);
+    if (message) issues.push({ key, source, message });
+    return !message;
+  }
+
+  function resolve(): T {
+    const issues: ConfigIssue[] = [];
+    const values = { ...defaults };
+    const set = (key: keyof T & string, value: unknown, source: ConfigSource) => {
+      if (check(key, value, source, issues)) values[key] = value;
+    };
+    const setRaw = (key: keyof T & string, raw: string, source: ConfigSource) => {
+      const value = coerce(raw, defaults[key]);
+      if (typeof value === "object") issues.push({ key, source, message: value.error });
+      else set(key, value, source);
+    };
+
+    for (const key of keys) check(key, defaults[key], "defaults", issues);
+
+    if (file && fs.existsSync(file)) {
+      let json: unknown;
+      try {
+        json = JSON.parse(fs.readFileSync(file, "utf8"));
+      } catch (e) {
+        issues.push({ key: file, source: "file", message: (e as Error).message });
+      }
+      if (json !== undefined && (typeof json !== "object" || json === null || Array.isArray(json))) {
+        issues.push({ key: file, source: "file", message: "expected a JSON object" });
+      } else if (json) {
+        for (const [key, value] of Object.entries(json)) {
+          if (!keys.includes(key as keyof T & string)) {
+            issues.push({ key, source: "file", message: "unknown key" });
+          } else {
+            set(key as keyof T & string, value, "file");
+          }
+        }
+      }
+    }
+
+    for (const key of keys) {
+      const raw = env[envKey<T>(key)];
+      if (raw !== undefined) setRaw(key, raw, "env");
+    }
+
+    const flags = parseArgv(argv, (name) => keys.includes(name as keyof T & string) && typeof defaults[name as keyof T] !== "boolean");
+    for (const key of keys) {
+      const raw = flags.get(key);
+      if (raw !== undefined) setRaw(key, raw, "cli");
+    }
+
+    Object.assign(values, overrides);
+    if (issues.length) throw new ConfigError(issues);
+    return values;
+  }
+
+  let current = resolve();
+
+  function notify(previous: T) {
+    for (const key of keys) {
+      if (Object.is(previous[key], current[key])) continue;
+      const change = { key, value: current[key], previous: previous[key] } as ConfigChange<T>;
+      for (const listener of subscribers) listener(change);
+    }
+  }
+
+  return {
+    get<K extends keyof T>(key: K): T[K] {
+      return current[key];
+    },
+
+    getAll(): Readonly<T> {
+      return current;
+    },
+
+    // Runtime override on top of every source; throws ConfigError if the value is invalid
+    update<K extends keyof T & string>(key: K, value: T[K]) {
+      const issues: ConfigIssue[] = [];
+      if (!check(key, value, "update", issues)) throw new ConfigError(issues);
+      overrides[key] = value;
+      const previous = current;
+      current = { ...current, [key]: value };
+      notify(previous);
+    },
+
+    subscribe(listener: (change: ConfigChange<T>) => void): () => void {
+      subscribers.add(listener);
+      return () => subscribers.delete(listener);
+    },
+
+    // Re-reads file/env/argv; subscribers hear about keys whose value changed
+    reload() {
+      const previous = current;
+      current = resolve();
+      notify(previous);
+    },
+  };
+}
+
+export { loadConfig, ConfigError };
+
+// ===== USAGE EXAMPLE =====
+
+if (import.meta.filename === process.argv[1]) {
+  const config = loadConfig<Config>({
+    defaults: {
+      apiUrl: "https://api.example.com",
+      timeout: 5000,
+      retries: 3,
+      debug: false,
+    },
+    file: "config.json",
+    env: { APP_TIMEOUT: "10000", APP_DEBUG: "true" },
+    argv: ["--retries", "5"],
+    validate: {
+      apiUrl: (url) => (/^https?:\/\//.test(url) ? undefined : "must be an http(s) URL"),
+      retries: (n) => (Number.isInteger(n) && n >= 0 ? undefined : "must be a non-negative integer"),
+    },
+  });
+
+  // getConfig / updateConfig in indexed-access-types.ts wrap a loader like this one
+  config.subscribe((change) => console.log(`${change.key}: ${change.previous} -> ${change.value}`));
+
+  console.log(config.get("timeout"), config.get("debug"), config.get("retries"));
+  // Result: 10000 true 5
+
+  config.update("apiUrl", "https://new-api.example.com");
+  // Logs: apiUrl: https://api.example.com -> https://new-api.example.com
+
+  try {
+    config.update("apiUrl", "ftp://example.com");
+  } catch (e) {
+    if (e instanceof ConfigError) console.log(e.message);
+  }
+
+  try {
+    loadConfig<Config>({ defaults: config.getAll(), env: { APP_TIMEOUT: "soon" }, argv: [] });
+  } catch (e) {
+    if (e instanceof ConfigError) console.log(e.issues);
+    // [{ key: "timeout", source: "env", message: 'expected a number, got "soon"' }]
+  }
+}
+
+// ===== KEY CONCEPTS =====
+
+/*
+ * 1. Layered sources, lowest to highest precedence:
+ *    defaults -> JSON file -> APP_* env vars -> CLI flags -> runtime updates
+ *
+ * 2. Coercion is driven by the defaults:
+ *    - env and CLI values are strings; they are converted to the default's type
+ *    - file values must already have the right JSON type
+ *
+ * 3. Validation collects every problem into a single ConfigError
+ *    - each issue names the key and the source it came from
+ *
+ * 4. Subscriptions:
+ *    - update() and reload() notify listeners with typed { key, value, previous }
+ */
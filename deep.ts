@@ -0,0 +1,355 @@
+/**
+ * Deep Object Utilities
+ * Runtime versions of `DeepReadonly` (conditional-types.ts) and `DeepPartial`
+ * (mapped-types.ts): `deepFreeze` freezes a whole object graph, `deepMerge` applies a
+ * nested partial without mutating either input. `diff` / `applyPatch` compute and apply
+ * RFC 6902 JSON Patch operations between two JSON values.
+ */
+
+import type { DeepReadonly, JsonValue } from "./conditional-types.js";
+import type { DeepPartial } from "./mapped-types.js";
+
+// ===== DEEP FREEZE =====
+
+const COLLECTION_MUTATORS = ["set", "add", "delete", "clear"] as const;
+const DATE_MUTATORS = Object.getOwnPropertyNames(Date.prototype).filter((name) => name.startsWith("set"));
+
+function rejectMutation(this: object): never {
+  throw new TypeError(`Cannot modify a frozen ${this.constructor.name}`);
+}
+
+// Object.freeze doesn't reach Map/Set entries or Date internals, so their mutators are
+// shadowed by throwing own properties before the instance itself is frozen
+function lockMethods(target: object, names: readonly string[]) {
+  for (const name of names) {
+    Object.defineProperty(target, name, { value: rejectMutation, enumerable: false });
+  }
+}
+
+/**
+ * Freezes `value` and everything reachable from it, in place:
+ * - plain objects, arrays and class instances: own properties, recursively
+ * - Map / Set: keys and values recursively; set/add/delete/clear throw
+ * - Date: every set* method throws
+ * - typed arrays and DataViews are left alone: their elements can't be frozen
+ * - functions and primitives are returned untouched; cycles are fine
+ */
+function deepFreeze<T>(value: T): DeepReadonly<T> {
+  const seen = new WeakSet<object>();
+  const visit = (current: unknown) => {
+    if (typeof current !== "object" || current === null || seen.has(current) || ArrayBuffer.isView(current)) return;
+    seen.add(current);
+    if (current instanceof Map) {
+      current.forEach((v, k) => (visit(k), visit(v)));
+      lockMethods(current, COLLECTION_MUTATORS);
+    } else if (current instanceof Set) {
+      current.forEach(visit);
+      lockMethods(current, COLLECTION_MUTATORS);
+    } else if (current instanceof Date) {
+      lockMethods(current, DATE_MUTATORS);
+    }
+    for (const key of Reflect.ownKeys(current)) {
+      visit((current as Record<PropertyKey, unknown>)[key]);
+    }
+    Object.freeze(current);
+  };
+  visit(value);
+  return value as DeepReadonly<T>;
+}
+
+// ===== DEEP MERGE =====
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+// Keys that would reach the prototype chain when assigned
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+/**
+ * Returns a new value with `patch` applied to `base`; neither input is mutated and
+ * untouched branches are shared with `base`:
+ * - plain objects merge key by key; `undefined` in the patch keeps the base value
+ * - Maps merge by key, deep-merging values that are both plain objects
+ * - arrays, Sets, Dates and class instances in the patch replace the base value
+ * - "__proto__", "constructor" and "prototype" keys in the patch are ignored
+ */
+function deepMerge<T>(base: T, patch: DeepPartial<T>): T {
+  return mergeValue(base, patch) as T;
+}
+
+function mergeValue(base: unknown, patch: unknown): unknown {
+  if (patch === undefined) return base;
+  if (isPlainObject(base) && isPlainObject(patch)) {
+    const result: Record<string, unknown> = { ...base };
+    for (const [key, value] of Object.entries(patch)) {
+      if (UNSAFE_KEYS.has(key)) continue;
+      result[key] = mergeValue(base[key], value);
+    }
+    return result;
+  }
+  if (base instanceof Map && patch instanceof Map) {
+    const result = new Map(base);
+    patch.forEach((value, key) => result.set(key, mergeValue(base.get(key), value)));
+    return result;
+  }
+  return patch;
+}
+
+// ===== JSON PATCH (RFC 6902) =====
+
+type JsonPatchOperation =
+  | { op: "add"; path: string; value: JsonValue }
+  | { op: "remove"; path: string }
+  | { op: "replace"; path: string; value: JsonValue }
+  | { op: "move"; from: string; path: string }
+  | { op: "copy"; from: string; path: string }
+  | { op: "test"; path: string; value: JsonValue };
+
+export type { JsonPatchOperation };
+
+class PatchError extends Error {
+  constructor(
+    // Position of the failing operation in the patch
+    public readonly index: number,
+    public readonly operation: JsonPatchOperation,
+    message: string
+  ) {
+    super(`Operation ${index} (${operation.op} ${operation.path}): ${message}`);
+    this.name = "PatchError";
+  }
+}
+
+function escapeToken(token: string | number): string {
+  return String(token).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === "") return [];
+  if (!pointer.startsWith("/")) throw new Error(`invalid pointer "${pointer}"`);
+  return pointer.slice(1).split("/").map((token) => token.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+function isEqual(a: JsonValue, b: JsonValue): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]!));
+  }
+  const aObj = a as Record<string, JsonValue>;
+  const bObj = b as Record<string, JsonValue>;
+  const keys = Object.keys(aObj);
+  return keys.length === Object.keys(bObj).length && keys.every((k) => Object.hasOwn(bObj, k) && isEqual(aObj[k]!, bObj[k]!));
+}
+
+/**
+ * Operations that turn `from` into `to`, using only add / remove / replace.
+ * Arrays are compared by index: changed items are diffed in place, then items are
+ * appended or removed from the end.
+ */
+function diff(from: JsonValue, to: JsonValue, path = ""): JsonPatchOperation[] {
+  if (isEqual(from, to)) return [];
+  const bothArrays = Array.isArray(from) && Array.isArray(to);
+  const bothObjects = isPlainObject(from) && isPlainObject(to);
+  if (!bothArrays && !bothObjects) return [{ op: "replace", path, value: to }];
+
+  const ops: JsonPatchOperation[] = [];
+  if (Array.isArray(from) && Array.isArray(to)) {
+    const common = Math.min(from.length, to.length);
+    for (let i = 0; i < common; i++) ops.push(...diff(from[i]!, to[i]!, `${path}/${i}`));
+    // Remove from the end so earlier indexes stay valid
+    for (let i = from.length - 1; i >= to.length; i--) ops.push({ op: "remove", path: `${path}/${i}` });
+    for (let i = common; i < to.length; i++) ops.push({ op: "add", path: `${path}/${i}`, value: to[i]! });
+    return ops;
+  }
+
+  const a = from as Record<string, JsonValue>;
+  const b = to as Record<string, JsonValue>;
+  for (const key of Object.keys(a)) {
+    const child = `${path}/${escapeToken(key)}`;
+    if (!Object.hasOwn(b, key)) ops.push({ op: "remove", path: child });
+    else ops.push(...diff(a[key]!, b[key]!, child));
+  }
+  for (const key of Object.keys(b)) {
+    if (!Object.hasOwn(a, key)) ops.push({ op: "add", path: `${path}/${escapeToken(key)}`, value: b[key]! });
+  }
+  return ops;
+}
+
+type Container = JsonValue[] | Record<string, JsonValue>;
+
+// Resolves everything but the last token; `parent` is undefined when the pointer is the root
+function locate(doc: JsonValue, pointer: string): { parent?: Container; key: string } {
+  const tokens = parsePointer(pointer);
+  const key = tokens.pop();
+  if (key === undefined) return { key: "" };
+  let current: JsonValue = doc;
+  for (const token of tokens) {
+    const next: JsonValue | undefined = readChild(current, token);
+    if (next === undefined) throw new Error(`path "${pointer}" does not exist`);
+    current = next;
+  }
+  if (typeof current !== "object" || current === null) throw new Error(`path "${pointer}" does not exist`);
+  return { parent: current, key };
+}
+
+function arrayIndex(array: JsonValue[], token: string, allowEnd: boolean): number {
+  if (allowEnd && token === "-") return array.length;
+  if (!/^(0|[1-9]\d*)$/.test(token)) throw new Error(`invalid array index "${token}"`);
+  const index = Number(token);
+  if (index > array.length || (!allowEnd && index === array.length)) throw new Error(`index ${index} out of bounds`);
+  return index;
+}
+
+function readChild(container: JsonValue, token: string): JsonValue | undefined {
+  if (Array.isArray(container)) return container[arrayIndex(container, token, false)];
+  if (typeof container === "object" && container !== null && Object.hasOwn(container, token)) return container[token];
+  return undefined;
+}
+
+function getValue(doc: JsonValue, pointer: string): JsonValue {
+  let current = doc;
+  for (const token of parsePointer(pointer)) {
+    const next = readChild(current, token);
+    if (next === undefined) throw new Error(`path "${pointer}" does not exist`);
+    current = next;
+  }
+  return current;
+}
+
+// Each mutator returns the (possibly new) document root
+function addValue(doc: JsonValue, pointer: string, value: JsonValue): JsonValue {
+  const { parent, key } = locate(doc, pointer);
+  if (!parent) return value;
+  if (Array.isArray(parent)) parent.splice(arrayIndex(parent, key, true), 0, value);
+  else Object.defineProperty(parent, key, { value, enumerable: true, writable: true, configurable: true });
+  return doc;
+}
+
+function removeValue(doc: JsonValue, pointer: string): JsonValue {
+  const { parent, key } = locate(doc, pointer);
+  if (!parent) throw new Error("cannot remove the root");
+  if (Array.isArray(parent)) parent.splice(arrayIndex(parent, key, false), 1);
+  else if (Object.hasOwn(parent, key)) delete parent[key];
+  else throw new Error(`path "${pointer}" does not exist`);
+  return doc;
+}
+
+/**
+ * Applies `ops` in order and returns the new document. The input is never mutated, and a
+ * failing operation (including a failed "test") aborts the whole patch with a PatchError.
+ */
+function applyPatch(doc: JsonValue, ops: readonly JsonPatchOperation[]): JsonValue {
+  let result: JsonValue = structuredClone(doc);
+  ops.forEach((operation, index) => {
+    try {
+      switch (operation.op) {
+        case "add":
+          result = addValue(result, operation.path, structuredClone(operation.value));
+          break;
+        case "remove":
+          result = removeValue(result, operation.path);
+          break;
+        case "replace":
+          if (operation.path !== "") result = removeValue(result, operation.path);
+          result = addValue(result, operation.path, structuredClone(operation.value));
+          break;
+        case "move": {
+          if (operation.path.startsWith(operation.from + "/")) throw new Error("cannot move a value into itself");
+          const value = getValue(result, operation.from);
+          result = removeValue(result, operation.from);
+          result = addValue(result, operation.path, value);
+          break;
+        }
+        case "copy":
+          result = addValue(result, operation.path, structuredClone(getValue(result, operation.from)));
+          break;
+        case "test":
+          if (!isEqual(getValue(result, operation.path), operation.value)) throw new Error("test failed");
+          break;
+      }
+    } catch (e) {
+      throw new PatchError(index, operation, e instanceof Error ? e.message : String(e));
+    }
+  });
+  return result;
+}
+
+export { deepFreeze, deepMerge, diff, applyPatch, PatchError };
+
+// ===== USAGE EXAMPLE =====
+
+if (import.meta.filename === process.argv[1]) {
+  type Settings = {
+    theme: { mode: "light" | "dark"; accent: string };
+    tags: string[];
+    flags: Map<string, { enabled: boolean; rollout: number }>;
+    updatedAt: Date;
+  };
+
+  const defaults: Settings = {
+    theme: { mode: "light", accent: "#0af" },
+    tags: ["beta"],
+    flags: new Map([["search", { enabled: false, rollout: 0 }]]),
+    updatedAt: new Date("2024-01-01T00:00:00Z"),
+  };
+
+  const merged = deepMerge(defaults, {
+    theme: { mode: "dark" },
+    tags: ["stable"],
+    flags: new Map([["search", { enabled: true, rollout: 50 }]]),
+  });
+  console.log(merged.theme, merged.tags, merged.flags.get("search"));
+  // { mode: 'dark', accent: '#0af' } [ 'stable' ] { enabled: true, rollout: 50 }
+  console.log(defaults.theme.mode, merged.updatedAt === defaults.updatedAt); // light true
+
+  const frozen = deepFreeze(merged);
+  // frozen.theme.mode = "light"; // Error: readonly property
+  try {
+    (frozen.flags as Map<string, unknown>).set("x", 1); // ReadonlyMap has no set(); cast to try anyway
+  } catch (e) {
+    console.log((e as Error).message); // Cannot modify a frozen Map
+  }
+  console.log(Object.isFrozen(frozen.theme), Object.isFrozen(frozen.flags.get("search")), frozen.updatedAt.getTime()); // true true 1704067200000
+
+  const before: JsonValue = { name: "Ada", roles: ["admin", "dev"], meta: { "a/b": 1 } };
+  const after: JsonValue = { name: "Ada L.", roles: ["admin"], meta: { "a/b": 2, created: true } };
+
+  const patch = diff(before, after);
+  console.log(patch);
+  // [ { op: 'replace', path: '/name', value: 'Ada L.' },
+  //   { op: 'remove', path: '/roles/1' },
+  //   { op: 'replace', path: '/meta/a~1b', value: 2 },
+  //   { op: 'add', path: '/meta/created', value: true } ]
+  console.log(isEqual(applyPatch(before, patch), after)); // true
+
+  try {
+    applyPatch(after, [
+      { op: "test", path: "/name", value: "Ada L." },
+      { op: "move", from: "/meta/created", path: "/created" },
+      { op: "remove", path: "/missing" },
+    ]);
+  } catch (e) {
+    if (e instanceof PatchError) console.log(e.message); // Operation 2 (remove /missing): path "/missing" does not exist
+  }
+}
+
+// ===== KEY CONCEPTS =====
+
+/*
+ * 1. deepFreeze returns DeepReadonly<T>:
+ *    - objects, arrays and class instances are frozen recursively
+ *    - Map/Set/Date mutators throw, since Object.freeze can't stop them
+ *    - Maps and Sets are typed as ReadonlyMap / ReadonlySet; typed arrays are skipped
+ *
+ * 2. deepMerge(base, patch: DeepPartial<T>) is non-mutating with structural sharing:
+ *    - plain objects and Maps merge
+ *    - arrays, Sets, Dates and class instances are replaced
+ *
+ * 3. JSON Patch:
+ *    - diff emits add / remove / replace with RFC 6901 pointers
+ *    - applyPatch supports all six operations and is all-or-nothing
+ */
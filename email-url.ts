@@ -0,0 +1,272 @@
+/**
+ * Email and URL Parsing
+ * `Email` and `ValidURL` (template-literal-types.ts) only check the rough shape of a
+ * string. These parsers follow the RFC 5321/5322 address grammar (dot-atom local parts)
+ * and WHATWG URL parsing restricted to the `URLScheme` allow-list. Internationalized
+ * domains are normalized to punycode. Each parser has a guard and an assertion that narrow
+ * to a branded type, plus a coded rejection that says why a value failed.
+ */
+
+import * as url from "node:url";
+import type { Result } from "./result.js";
+import type { Email, URLScheme, ValidURL } from "./template-literal-types.js";
+
+// ===== TYPES =====
+
+declare const emailBrand: unique symbol;
+declare const urlBrand: unique symbol;
+
+// Normalized `local@ascii-domain`; only produced by parseEmail / isEmail / assertEmail
+type ValidEmail = Email & { readonly [emailBrand]: true };
+
+// Normalized href whose scheme is on the allow-list
+type SafeURL = ValidURL & { readonly [urlBrand]: true };
+
+type Rejection<C extends string> = { code: C; message: string };
+
+type EmailRejectionCode =
+  | "missing-at"
+  | "too-long"
+  | "local-too-long"
+  | "invalid-local"
+  | "invalid-domain"
+  | "address-literal"
+  | "not-normalized";
+
+type UrlRejectionCode =
+  | "invalid-syntax"
+  | "scheme-not-allowed"
+  | "missing-host"
+  | "invalid-host"
+  | "credentials"
+  | "not-normalized";
+
+type EmailAddress = {
+  address: ValidEmail;
+  local: string;
+  // As written, lowercased (may contain Unicode)
+  domain: string;
+  // Punycode form used on the wire, e.g. "xn--bcher-kva.example"
+  asciiDomain: string;
+};
+
+type ParsedUrl = {
+  href: SafeURL;
+  scheme: URLScheme;
+  host: string;
+  hostUnicode: string;
+  // undefined when the URL uses the scheme's default port
+  port: number | undefined;
+  path: string;
+  query: Record<string, string | string[]>;
+  fragment: string;
+};
+
+type UrlOptions = { schemes?: readonly URLScheme[] };
+
+export type { ValidEmail, SafeURL, Rejection, EmailRejectionCode, UrlRejectionCode, EmailAddress, ParsedUrl, UrlOptions };
+
+class InvalidInputError<C extends string> extends Error {
+  constructor(public readonly input: string, public readonly rejection: Rejection<C>) {
+    super(`${JSON.stringify(input)}: ${rejection.message}`);
+    this.name = "InvalidInputError";
+  }
+}
+
+const reject = <C extends string>(code: C, message: string): Result<never, Rejection<C>> => ({
+  ok: false,
+  error: { code, message },
+});
+
+// ===== DOMAINS =====
+
+const LABEL = /^(?!-)[a-z0-9-]{1,63}(?<!-)$/;
+
+// Hostname rules shared by both parsers: LDH labels of 1-63 chars, at most 253 in total
+function checkAsciiDomain(domain: string): string | undefined {
+  if (domain.length > 253) return "domain is longer than 253 characters";
+  const labels = domain.split(".");
+  if (labels.length < 2) return "domain needs at least two labels";
+  const bad = labels.find((label) => !LABEL.test(label));
+  if (bad !== undefined) return `invalid domain label "${bad}"`;
+  if (/^\d+$/.test(labels[labels.length - 1]!)) return "top-level domain can't be numeric";
+  return undefined;
+}
+
+// ===== EMAIL =====
+
+// RFC 5322 atext; quoted local parts ("john doe"@x) are intentionally not accepted
+const ATEXT = "[a-zA-Z0-9!#$%&'*+/=?^_`{|}~-]+";
+const DOT_ATOM = new RegExp(`^${ATEXT}(?:\\.${ATEXT})*$`);
+
+function parseEmail(input: string): Result<EmailAddress, Rejection<EmailRejectionCode>> {
+  const text = input.trim();
+  const at = text.lastIndexOf("@");
+  if (at <= 0 || at === text.length - 1) return reject("missing-at", "expected local@domain");
+
+  const local = text.slice(0, at);
+  const domainPart = text.slice(at + 1);
+  if (domainPart.startsWith("[")) return reject("address-literal", "IP address literals are not accepted");
+  if (local.length > 64) return reject("local-too-long", "local part is longer than 64 characters");
+  if (!DOT_ATOM.test(local)) return reject("invalid-local", `invalid local part "${local}"`);
+
+  const domain = domainPart.toLowerCase();
+  const asciiDomain = url.domainToASCII(domain);
+  const problem = asciiDomain ? checkAsciiDomain(asciiDomain) : "domain can't be converted to punycode";
+  if (problem) return reject("invalid-domain", problem);
+
+  const address = `${local}@${asciiDomain}`;
+  if (address.length > 254) return reject("too-long", "address is longer than 254 characters");
+  return { ok: true, value: { address: address as ValidEmail, local, domain, asciiDomain } };
+}
+
+function isEmail(value: unknown): value is ValidEmail {
+  if (typeof value !== "string") return false;
+  const result = parseEmail(value);
+  // Only the normalized form is a ValidEmail
+  return result.ok && result.value.address === value;
+}
+
+function assertEmail(value: string): asserts value is ValidEmail {
+  const result = parseEmail(value);
+  if (!result.ok) throw new InvalidInputError(value, result.error);
+  if (result.value.address !== value) {
+    throw new InvalidInputError(value, { code: "not-normalized", message: `not normalized; use "${result.value.address}"` });
+  }
+}
+
+// ===== URL =====
+
+const DEFAULT_SCHEMES: readonly URLScheme[] = ["http", "https", "ftp"];
+
+function parseUrl(input: string, options: UrlOptions = {}): Result<ParsedUrl, Rejection<UrlRejectionCode>> {
+  let parsed: URL;
+  try {
+    parsed = new URL(input.trim());
+  } catch {
+    return reject("invalid-syntax", "not an absolute URL");
+  }
+
+  const scheme = parsed.protocol.slice(0, -1);
+  const allowed = options.schemes ?? DEFAULT_SCHEMES;
+  if (!(allowed as readonly string[]).includes(scheme)) {
+    return reject("scheme-not-allowed", `scheme "${scheme}" is not one of ${allowed.join(", ")}`);
+  }
+  if (parsed.username || parsed.password) return reject("credentials", "credentials in URLs are not accepted");
+  if (!parsed.hostname) return reject("missing-host", "URL has no host");
+
+  // IPv4/IPv6 hosts are fine; names must be valid (already punycoded) domains
+  const host = parsed.hostname;
+  const isIp = /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.startsWith("[");
+  const problem = isIp || host === "localhost" ? undefined : checkAsciiDomain(host);
+  if (problem) return reject("invalid-host", problem);
+
+  const query: Record<string, string | string[]> = {};
+  for (const [key, value] of parsed.searchParams) {
+    const existing = query[key];
+    query[key] = existing === undefined ? value : Array.isArray(existing) ? [...existing, value] : [existing, value];
+  }
+
+  return {
+    ok: true,
+    value: {
+      href: parsed.href as SafeURL,
+      scheme: scheme as URLScheme,
+      host,
+      hostUnicode: url.domainToUnicode(host) || host,
+      port: parsed.port ? Number(parsed.port) : undefined,
+      path: parsed.pathname,
+      query,
+      fragment: parsed.hash.slice(1),
+    },
+  };
+}
+
+function isSafeUrl(value: unknown, options?: UrlOptions): value is SafeURL {
+  if (typeof value !== "string") return false;
+  const result = parseUrl(value, options);
+  return result.ok && result.value.href === value;
+}
+
+function assertSafeUrl(value: string, options?: UrlOptions): asserts value is SafeURL {
+  const result = parseUrl(value, options);
+  if (!result.ok) throw new InvalidInputError(value, result.error);
+  if (result.value.href !== value) {
+    throw new InvalidInputError(value, { code: "not-normalized", message: `not normalized; use "${result.value.href}"` });
+  }
+}
+
+export { parseEmail, isEmail, assertEmail, parseUrl, isSafeUrl, assertSafeUrl, InvalidInputError };
+
+// ===== USAGE EXAMPLE =====
+
+if (import.meta.filename === process.argv[1]) {
+  const parsed = parseEmail("Ada.Lovelace+news@Bücher.Example");
+  if (parsed.ok) {
+    console.log(parsed.value);
+    // { address: 'Ada.Lovelace+news@xn--bcher-kva.example', local: 'Ada.Lovelace+news',
+    //   domain: 'bücher.example', asciiDomain: 'xn--bcher-kva.example' }
+  }
+
+  for (const input of ["ada@example", "a..b@example.com", "ada@-bad-.com", "ada@[127.0.0.1]", "no-at-sign"]) {
+    const result = parseEmail(input);
+    if (!result.ok) console.log(input, "->", result.error.code);
+  }
+  // ada@example -> invalid-domain
+  // a..b@example.com -> invalid-local
+  // ada@-bad-.com -> invalid-domain
+  // ada@[127.0.0.1] -> address-literal
+  // no-at-sign -> missing-at
+
+  function sendWelcome(to: ValidEmail) {
+    console.log("sending to", to);
+  }
+
+  const raw = "ada@example.com";
+  // sendWelcome(raw); // Error: string is not a ValidEmail
+  if (isEmail(raw)) sendWelcome(raw);
+
+  const link = parseUrl("https://Bücher.example:8443/shop/books?tag=ts&tag=node#top");
+  if (link.ok) {
+    const { href, scheme, host, hostUnicode, port, path, query, fragment } = link.value;
+    console.log(href, scheme, host, hostUnicode, port, path, query, fragment);
+    // https://xn--bcher-kva.example:8443/shop/books?tag=ts&tag=node#top https xn--bcher-kva.example
+    // bücher.example 8443 /shop/books { tag: [ 'ts', 'node' ] } top
+  }
+
+  for (const input of ["javascript:alert(1)", "https://user:pw@example.com", "ftp://files.example.com", "not a url"]) {
+    const result = parseUrl(input, { schemes: ["https"] });
+    console.log(input, "->", result.ok ? "ok" : result.error.message);
+  }
+  // javascript:alert(1) -> scheme "javascript" is not one of https
+  // https://user:pw@example.com -> credentials in URLs are not accepted
+  // ftp://files.example.com -> scheme "ftp" is not one of https
+  // not a url -> not an absolute URL
+
+  const homepage: string = "https://example.com/";
+  assertSafeUrl(homepage);
+  const safe: SafeURL = homepage; // narrowed by the assertion
+
+  try {
+    assertEmail("ADA@EXAMPLE.COM");
+  } catch (e) {
+    if (e instanceof InvalidInputError) console.log(e.message); // "ADA@EXAMPLE.COM": not normalized; use "ADA@example.com"
+  }
+}
+
+// ===== KEY CONCEPTS =====
+
+/*
+ * 1. Parse, don't validate: parsers return structured Result values
+ *    - email: local part, domain and its punycode (IDN) form
+ *    - URL: scheme, host (ASCII and Unicode), port, path, query and fragment
+ *
+ * 2. Rejections carry a machine-readable code and a human-readable message
+ *
+ * 3. Branded types:
+ *    - ValidEmail / SafeURL can only come from a parser, guard or assertion
+ *    - guards accept only the normalized form, so equal addresses compare equal
+ *
+ * 4. URLs are limited to the URLScheme allow-list (optionally narrower), and
+ *    credentials in URLs are rejected
+ */
@@ -0,0 +1,261 @@
+/**
+ * Form Controller
+ * `createForm<T>` owns a `FormState<T>` (mapped-types.ts) and drives its lifecycle:
+ * values, touched and dirty flags, sync/async validation on change, blur or submit,
+ * and typed events for UI layers to subscribe to.
+ */
+
+import type { FormState } from "./mapped-types.js";
+
+// ===== TYPES =====
+
+// true / undefined = valid, false = generic error, string = error message
+type ValidationOutcome = boolean | string | undefined;
+
+type FieldValidator<T, K extends keyof T> = (
+  value: T[K],
+  values: T
+) => ValidationOutcome | Promise<ValidationOutcome>;
+
+type FormValidators<T> = { [K in keyof T]?: FieldValidator<T, K> };
+
+// When field validation runs before submit (submit always validates every field)
+type ValidationMode = "change" | "blur" | "submit";
+
+type FormControllerState<T> = FormState<T> & {
+  dirty: Partial<Record<keyof T, boolean>>;
+  isDirty: boolean;
+  isValid: boolean;
+  isValidating: boolean;
+  isSubmitting: boolean;
+  submitCount: number;
+};
+
+// One entry per field, so `value` is typed by the field it belongs to
+type FieldChange<T> = { [K in keyof T]: { field: K; value: T[K] } }[keyof T];
+
+type FormEvents<T> = {
+  change: (change: FieldChange<T>) => void;
+  blur: (field: keyof T) => void;
+  submit: (values: T) => void;
+  state: (state: FormControllerState<T>) => void;
+};
+
+type FormOptions<T> = {
+  initialValues: T;
+  validators?: FormValidators<T>;
+  mode?: ValidationMode;
+  // Message used when a validator returns `false`
+  defaultMessage?: string;
+};
+
+export type { FormValidators, FormControllerState, FormEvents, FormOptions };
+
+// ===== CONTROLLER =====
+
+function createForm<T extends object>(options: FormOptions<T>) {
+  const { initialValues, mode = "blur", defaultMessage = "Invalid value" } = options;
+  const validators: FormValidators<T> = options.validators ?? {};
+  const fields = Object.keys(initialValues) as (keyof T)[];
+  const listeners: { [E in keyof FormEvents<T>]: Set<FormEvents<T>[E]> } = {
+    change: new Set(),
+    blur: new Set(),
+    submit: new Set(),
+    state: new Set(),
+  };
+  // Incremented per field so a slow async result can't overwrite a newer one
+  const runs = new Map<keyof T, number>();
+  let pending = 0;
+  // Bumped by reset, so validations started before it don't count towards `pending`
+  let generation = 0;
+  let initial = { ...initialValues };
+  let state = freshState(initial);
+
+  function freshState(values: T): FormControllerState<T> {
+    return {
+      values: { ...values },
+      errors: {},
+      touched: {},
+      dirty: {},
+      isDirty: false,
+      isValid: true,
+      isValidating: false,
+      isSubmitting: false,
+      submitCount: 0,
+    };
+  }
+
+  function emit<E extends keyof FormEvents<T>>(event: E, ...args: Parameters<FormEvents<T>[E]>) {
+    for (const listener of listeners[event]) (listener as (...a: typeof args) => void)(...args);
+  }
+
+  function update(patch: Partial<FormControllerState<T>>) {
+    const next = { ...state, ...patch };
+    next.isDirty = fields.some((f) => next.dirty[f]);
+    next.isValid = fields.every((f) => next.errors[f] === undefined);
+    next.isValidating = pending > 0;
+    state = next;
+    emit("state", state);
+  }
+
+  function on<E extends keyof FormEvents<T>>(event: E, listener: FormEvents<T>[E]): () => void {
+    listeners[event].add(listener);
+    return () => listeners[event].delete(listener);
+  }
+
+  async function validateField<K extends keyof T>(field: K): Promise<boolean> {
+    const validator = validators[field];
+    if (!validator) return true;
+    const run = (runs.get(field) ?? 0) + 1;
+    runs.set(field, run);
+    const gen = generation;
+
+    // A validator that throws marks the field invalid with the thrown message, sync or async
+    let outcome: ValidationOutcome | Promise<ValidationOutcome>;
+    try {
+      outcome = validator(state.values[field], state.values);
+    } catch (e) {
+      outcome = e instanceof Error ? e.message : String(e);
+    }
+    if (outcome instanceof Promise) {
+      pending++;
+      update({});
+      try {
+        outcome = await outcome;
+      } catch (e) {
+        outcome = e instanceof Error ? e.message : String(e);
+      } finally {
+        if (gen === generation) pending--;
+      }
+    }
+    if (runs.get(field) !== run) return state.errors[field] === undefined;
+
+    const message =
+      outcome === false ? defaultMessage : typeof outcome === "string" ? outcome : undefined;
+    const errors = { ...state.errors };
+    if (message === undefined) delete errors[field];
+    else errors[field] = message;
+    update({ errors });
+    return message === undefined;
+  }
+
+  async function validate(): Promise<boolean> {
+    const results = await Promise.all(fields.map((f) => validateField(f)));
+    return results.every(Boolean);
+  }
+
+  function setValue<K extends keyof T>(field: K, value: T[K]) {
+    const values = { ...state.values, [field]: value };
+    const dirty = { ...state.dirty, [field]: !Object.is(value, initial[field]) };
+    update({ values, dirty });
+    emit("change", { field, value } as FieldChange<T>);
+    if (mode === "change") void validateField(field);
+  }
+
+  function blur(field: keyof T) {
+    update({ touched: { ...state.touched, [field]: true } });
+    emit("blur", field);
+    if (mode !== "submit") void validateField(field);
+  }
+
+  // Resolves to false without calling `handler` when validation fails
+  async function submit(handler: (values: T) => void | Promise<void>): Promise<boolean> {
+    const touched: Partial<Record<keyof T, boolean>> = {};
+    for (const f of fields) touched[f] = true;
+    update({ touched, isSubmitting: true, submitCount: state.submitCount + 1 });
+    try {
+      if (!(await validate())) return false;
+      emit("submit", state.values);
+      await handler(state.values);
+      return true;
+    } finally {
+      update({ isSubmitting: false });
+    }
+  }
+
+  // Resets to the given values (which also become the new pristine baseline)
+  function reset(values: T = initial) {
+    initial = { ...values };
+    // Supersede in-flight validations rather than forgetting them: a cleared counter would
+    // let a result from before the reset pass the staleness check
+    for (const f of fields) runs.set(f, (runs.get(f) ?? 0) + 1);
+    generation++;
+    pending = 0;
+    state = freshState(initial);
+    emit("state", state);
+  }
+
+  return {
+    getState: () => state,
+    on,
+    setValue,
+    blur,
+    validateField,
+    validate,
+    submit,
+    reset,
+  };
+}
+
+export { createForm };
+
+// ===== USAGE EXAMPLE =====
+
+if (import.meta.filename === process.argv[1]) {
+  interface SignupForm {
+    username: string;
+    email: string;
+    age: number;
+  }
+
+  const takenUsernames = new Set(["admin", "root"]);
+
+  const signup = createForm<SignupForm>({
+    initialValues: { username: "", email: "", age: 0 },
+    mode: "blur",
+    validators: {
+      // async validator, e.g. a server round-trip
+      username: async (value) => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return takenUsernames.has(value) ? "Username is taken" : value.length > 0;
+      },
+      email: (value) => value.includes("@") || "Email must contain @",
+      age: (value) => value >= 18,
+    },
+  });
+
+  signup.on("change", (change) => console.log("changed:", change.field, change.value));
+
+  signup.setValue("username", "admin");
+  signup.blur("username");
+  signup.setValue("email", "not-an-email");
+  signup.setValue("age", 21);
+
+  signup
+    .submit(async (values) => console.log("submitted:", values))
+    .then((submitted) => {
+      const { errors, isDirty, submitCount } = signup.getState();
+      console.log({ submitted, errors, isDirty, submitCount });
+      // submitted: false, errors: { username: "Username is taken", email: "Email must contain @" }
+    });
+}
+
+// ===== KEY CONCEPTS =====
+
+/*
+ * 1. The controller owns FormState<T> and extends it with lifecycle flags:
+ *    - dirty / isDirty compare values against the pristine baseline
+ *    - isValidating / isSubmitting reflect in-flight async work
+ *
+ * 2. Validators:
+ *    - Plain Validators<T> (boolean) functions work unchanged
+ *    - Returning a string sets that string as the error message
+ *    - Async validators are supported; stale results are discarded
+ *
+ * 3. Validation mode decides when a field is checked before submit:
+ *    - "change": on every setValue
+ *    - "blur": when the field is blurred
+ *    - "submit": only when the form is submitted
+ *
+ * 4. Typed events let UI layers subscribe instead of re-implementing the logic
+ */
@@ -1,5 +1,7 @@
 // generics.ts — examples of Generics & Constraints in TypeScript
 
+import { Repository } from './indexed-access-types.js';
+
 // 1) Basic generic function
 function identity<T>(value: T): T {
   return value;
@@ -85,6 +87,7 @@ const u: UserReadonly = { id: 1, name: 'Eve' };
 // - Provide defaults `T = DefaultType` for convenience
 
 // 10) Quick usage examples for learners
+// (result.ts grows this into a full Result<T, E> toolkit)
 type Result<T> = { ok: true; value: T } | { ok: false; error: string };
 
 function wrap<T>(v: T): Result<T> { return { ok: true, value: v }; }
@@ -160,18 +163,11 @@ function pluckKeys<T, K extends keyof T>(obj: T, keys: K[]): T[K][] {
 const people = { alice: 30, bob: 25 };
 const ages = pluckKeys(people, ['alice']); // number[]
 
-// 4) Generic class with two type parameters and constraints
-interface HasId<ID = number> { id: ID }
-
-class Repository<T extends HasId<ID>, ID extends string | number = number> {
-  private store = new Map<ID, T>();
-  save(item: T) { this.store.set(item.id as ID, item); }
-  get(id: ID): T | undefined { return this.store.get(id); }
-}
-
+// 4) Generic class with a constrained type parameter
+// Repository<T extends { id: string | number }> from indexed-access-types.ts takes ids as T['id']
 type UserWithId = { id: string; name: string };
-const repo = new Repository<UserWithId, string>();
-repo.save({ id: 'u1', name: 'Nia' });
+const repo = new Repository<UserWithId>();
+repo.create({ id: 'u1', name: 'Nia' }).then(() => repo.get('u1')); // get(id: string)
 
 // 5) Multiple generics with defaults and constraints
 function mapArray<T, U = T>(arr: T[], fn: (v: T) => U): U[] {
@@ -197,13 +193,17 @@ const picked = pick({ id: 1, name: 'Sam' }, 'name');
 // Additional Generic Class Patterns
 // =====================================================
 
-// 1) Generic singly-linked list (enhanced)
+// 1) Generic doubly-linked list with O(1) append and node handles
 class LinkedListNode<T> {
-  constructor(public value: T, public next?: LinkedListNode<T>) {}
+  prev: LinkedListNode<T> | undefined = undefined;
+  next: LinkedListNode<T> | undefined = undefined;
+  owner: LinkedList<T> | undefined = undefined;
+  constructor(public value: T) {}
 }
 
 class LinkedList<T> implements Iterable<T> {
-  private head?: LinkedListNode<T>;
+  private head?: LinkedListNode<T> | undefined;
+  private tail?: LinkedListNode<T> | undefined;
   private _size = 0;
 
   static fromArray<T>(arr: T[]): LinkedList<T> {
@@ -212,140 +212,515 @@ class LinkedList<T> implements Iterable<T> {
     return l;
   }
 
-  add(value: T) {
-    const node = new LinkedListNode(value);
-    if (!this.head) this.head = node;
-    else {
-      let cur = this.head;
-      while (cur.next) cur = cur.next;
-      cur.next = node;
-    }
-    this._size++;
+  // Appends at the tail; the returned node can later be passed to `removeNode`.
+  add(value: T): LinkedListNode<T> {
+    const node = this.attach(value);
+    node.prev = this.tail;
+    if (this.tail) this.tail.next = node;
+    else this.head = node;
+    this.tail = node;
+    return node;
+  }
+
+  prepend(value: T): LinkedListNode<T> {
+    const node = this.attach(value);
+    node.next = this.head;
+    if (this.head) this.head.prev = node;
+    else this.tail = node;
+    this.head = node;
+    return node;
   }
 
-  insertAt(index: number, value: T) {
+  insertAt(index: number, value: T): LinkedListNode<T> {
     if (index < 0 || index > this._size) throw new RangeError('index out of bounds');
-    const node = new LinkedListNode(value);
-    if (index === 0) {
-      node.next = this.head;
-      this.head = node;
-    } else {
-      let cur = this.head!;
-      for (let i = 0; i < index - 1; i++) cur = cur.next!;
-      node.next = cur.next;
-      cur.next = node;
-    }
-    this._size++;
+    if (index === 0) return this.prepend(value);
+    if (index === this._size) return this.add(value);
+    const after = this.nodeAt(index)!;
+    const node = this.attach(value);
+    node.prev = after.prev;
+    node.next = after;
+    after.prev!.next = node;
+    after.prev = node;
+    return node;
   }
 
   removeAt(index: number): T | undefined {
-    if (index < 0 || index >= this._size) return undefined;
-    let removed: LinkedListNode<T> | undefined;
-    if (index === 0) {
-      removed = this.head;
-      this.head = this.head?.next;
-    } else {
-      let cur = this.head!;
-      for (let i = 0; i < index - 1; i++) cur = cur.next!;
-      removed = cur.next;
-      cur.next = cur.next?.next;
-    }
-    if (removed) this._size--;
-    return removed?.value;
+    const node = this.nodeAt(index);
+    return node ? this.removeNode(node) : undefined;
+  }
+
+  removeFirst(): T | undefined {
+    return this.head ? this.removeNode(this.head) : undefined;
+  }
+
+  removeLast(): T | undefined {
+    return this.tail ? this.removeNode(this.tail) : undefined;
+  }
+
+  // O(1) removal through a handle returned by `add`/`prepend`/`insertAt`.
+  removeNode(node: LinkedListNode<T>): T {
+    if (node.owner !== this) throw new Error('node does not belong to this list');
+    if (node.prev) node.prev.next = node.next;
+    else this.head = node.next;
+    if (node.next) node.next.prev = node.prev;
+    else this.tail = node.prev;
+    node.prev = node.next = node.owner = undefined;
+    this._size--;
+    return node.value;
+  }
+
+  peekFirst(): T | undefined {
+    return this.head?.value;
+  }
+
+  peekLast(): T | undefined {
+    return this.tail?.value;
   }
 
   find(predicate: (v: T) => boolean): T | undefined {
-    let cur = this.head;
-    while (cur) {
-      if (predicate(cur.value)) return cur.value;
-      cur = cur.next;
-    }
+    for (const v of this) if (predicate(v)) return v;
     return undefined;
   }
 
-  toArray(): T[] {
-    const out: T[] = [];
+  indexOf(value: T): number {
+    let i = 0;
+    for (const v of this) {
+      if (v === value) return i;
+      i++;
+    }
+    return -1;
+  }
+
+  // Reverses the list in place and returns it.
+  reverse(): this {
     let cur = this.head;
     while (cur) {
-      out.push(cur.value);
-      cur = cur.next;
+      const next = cur.next;
+      cur.next = cur.prev;
+      cur.prev = next;
+      cur = next;
     }
+    [this.head, this.tail] = [this.tail, this.head];
+    return this;
+  }
+
+  // Same index semantics as Array.prototype.slice, including negative indexes.
+  slice(start = 0, end = this._size): LinkedList<T> {
+    const from = start < 0 ? Math.max(this._size + start, 0) : Math.min(start, this._size);
+    const to = end < 0 ? Math.max(this._size + end, 0) : Math.min(end, this._size);
+    const out = new LinkedList<T>();
+    let cur = this.nodeAt(from);
+    for (let i = from; i < to && cur; i++, cur = cur.next) out.add(cur.value);
+    return out;
+  }
+
+  map<U>(fn: (v: T, idx: number) => U): LinkedList<U> {
+    const out = new LinkedList<U>();
+    this.forEach((v, i) => out.add(fn(v, i)));
     return out;
   }
 
+  filter(predicate: (v: T, idx: number) => boolean): LinkedList<T> {
+    const out = new LinkedList<T>();
+    this.forEach((v, i) => {
+      if (predicate(v, i)) out.add(v);
+    });
+    return out;
+  }
+
+  reduce<U>(fn: (acc: U, v: T, idx: number) => U, initial: U): U {
+    let acc = initial;
+    this.forEach((v, i) => {
+      acc = fn(acc, v, i);
+    });
+    return acc;
+  }
+
+  toArray(): T[] {
+    return [...this];
+  }
+
   size() {
     return this._size;
   }
 
   clear() {
-    this.head = undefined;
+    let cur = this.head;
+    while (cur) {
+      const next = cur.next;
+      cur.prev = cur.next = cur.owner = undefined;
+      cur = next;
+    }
+    this.head = this.tail = undefined;
     this._size = 0;
   }
 
   forEach(fn: (v: T, idx: number) => void) {
-    let cur = this.head;
     let i = 0;
+    for (const v of this) fn(v, i++);
+  }
+
+  // `next` is read before yielding so the current node may be removed mid-iteration.
+  *[Symbol.iterator](): Iterator<T> {
+    let cur = this.head;
     while (cur) {
-      fn(cur.value, i++);
-      cur = cur.next;
+      const next = cur.next;
+      yield cur.value;
+      cur = next;
     }
   }
 
-  [Symbol.iterator](): Iterator<T> {
-    let cur = this.head;
-    return {
-      next(): IteratorResult<T> {
-        if (!cur) return { done: true, value: undefined as any };
-        const v = cur.value;
-        cur = cur.next;
-        return { done: false, value: v };
-      },
-    };
+  *reversed(): IterableIterator<T> {
+    let cur = this.tail;
+    while (cur) {
+      const prev = cur.prev;
+      yield cur.value;
+      cur = prev;
+    }
+  }
+
+  private attach(value: T): LinkedListNode<T> {
+    const node = new LinkedListNode(value);
+    node.owner = this;
+    this._size++;
+    return node;
+  }
+
+  // Walks from whichever end is closer to `index`.
+  private nodeAt(index: number): LinkedListNode<T> | undefined {
+    if (index < 0 || index >= this._size) return undefined;
+    if (index < this._size / 2) {
+      let cur = this.head;
+      for (let i = 0; i < index; i++) cur = cur!.next;
+      return cur;
+    }
+    let cur = this.tail;
+    for (let i = this._size - 1; i > index; i--) cur = cur!.prev;
+    return cur;
   }
 }
 
 // Usage examples for `LinkedList`
-const ll = LinkedList.fromArray([1, 2, 3]);
-ll.add(4);
-ll.insertAt(2, 99);
-console.log('LinkedList toArray:', ll.toArray());
-console.log('size:', ll.size());
-console.log('find > 50:', ll.find(v => v > 50));
-console.log('removeAt(2):', ll.removeAt(2));
-for (const v of ll) console.log('iter:', v);
+if (import.meta.filename === process.argv[1]) {
+  const ll = LinkedList.fromArray([1, 2, 3]);
+  ll.add(4);
+  ll.insertAt(2, 99);
+  console.log('LinkedList toArray:', ll.toArray());
+  console.log('size:', ll.size());
+  console.log('find > 50:', ll.find(v => v > 50));
+  console.log('removeAt(2):', ll.removeAt(2));
+  for (const v of ll) console.log('iter:', v);
+
+  // Work-queue style usage: O(1) push/pop at both ends and handle-based removal
+  const queue = new LinkedList<string>();
+  queue.add('b');
+  const urgent = queue.prepend('a');
+  queue.add('c');
+  queue.removeNode(urgent);
+  console.log('removeFirst:', queue.removeFirst(), 'removeLast:', queue.removeLast());
+  console.log('reversed:', [...ll.reversed()], 'slice(1, -1):', ll.slice(1, -1).toArray());
+  console.log('map/filter/reduce:', ll.map(v => v * 2).filter(v => v > 4).reduce((sum, v) => sum + v, 0));
+}
 
 // 2) Typed event emitter using a generic map of event signatures
-class TypedEventEmitter<Events extends Record<string, (...args: any[]) => void>> {
-  private listeners = new Map<keyof Events, Set<Function>>();
+type EventMap = Record<string, (...args: any[]) => void>;
+
+// A `'*'` listener receives the event name followed by that event's arguments.
+type WildcardListener<Events extends EventMap> = (
+  ...entry: { [K in keyof Events]: [event: K, ...args: Parameters<Events[K]>] }[keyof Events]
+) => unknown;
+
+type ListenerErrorHandler<Events extends EventMap> = (error: unknown, event: keyof Events) => void;
+
+type ListenerOptions = { signal?: AbortSignal };
+
+// One `on`/`once` call. `detach` drops its abort-signal hook.
+type Registration = { invoke: Function; detach: () => void };
+
+type EventStreamOptions = ListenerOptions & {
+  // Emissions buffered while the consumer is busy; unbounded when omitted.
+  highWaterMark?: number;
+  // What happens to an emission that arrives while the buffer is full.
+  overflow?: 'drop-oldest' | 'drop-newest' | 'error';
+};
 
-  on<K extends keyof Events>(event: K, cb: Events[K]) {
-    const set = this.listeners.get(event) ?? new Set<Function>();
-    set.add(cb as Function);
-    this.listeners.set(event, set);
+class TypedEventEmitter<Events extends EventMap> {
+  // Registered callback -> its registration (`invoke` differs from the callback for `once` wrappers).
+  private listeners = new Map<keyof Events | '*', Map<Function, Registration>>();
+  private errorHandlers = new Set<ListenerErrorHandler<Events>>();
+  private maxListeners = 10;
+  private warned = new Set<keyof Events | '*'>();
+
+  // Passing `signal` unsubscribes the listener automatically when it aborts.
+  on(event: '*', cb: WildcardListener<Events>, options?: ListenerOptions): () => void;
+  on<K extends keyof Events>(event: K, cb: Events[K], options?: ListenerOptions): () => void;
+  on(event: keyof Events | '*', cb: Function, options: ListenerOptions = {}): () => void {
+    return this.addListener(event, cb, cb, options.signal);
   }
 
-  off<K extends keyof Events>(event: K, cb: Events[K]) {
-    const set = this.listeners.get(event);
-    set?.delete(cb as Function);
+  once(event: '*', cb: WildcardListener<Events>, options?: ListenerOptions): () => void;
+  once<K extends keyof Events>(event: K, cb: Events[K], options?: ListenerOptions): () => void;
+  once(event: keyof Events | '*', cb: Function, options: ListenerOptions = {}): () => void {
+    const wrapper = (...args: unknown[]) => {
+      unsubscribe();
+      return cb(...args);
+    };
+    const unsubscribe = this.addListener(event, cb, wrapper, options.signal);
+    return unsubscribe;
+  }
+
+  off(event: '*', cb: WildcardListener<Events>): void;
+  off<K extends keyof Events>(event: K, cb: Events[K]): void;
+  off(event: keyof Events | '*', cb: Function) {
+    this.removeListener(event, cb);
+  }
+
+  // Receives exceptions thrown (or rejected) by listeners. Without a handler they are rethrown
+  // once every listener has run, so one failing listener never skips the others. Async
+  // listeners that reject after a plain `emit` are the exception: see `reportDetached`.
+  onError(handler: ListenerErrorHandler<Events>): () => void {
+    this.errorHandlers.add(handler);
+    return () => this.errorHandlers.delete(handler);
+  }
+
+  // Resolves with the arguments of the next `event` emission; rejects with the abort reason.
+  waitFor<K extends keyof Events>(event: K, options: ListenerOptions = {}): Promise<Parameters<Events[K]>> {
+    const { signal } = options;
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) return reject(signal.reason);
+      const onAbort = () => reject(signal!.reason);
+      const listener = (...args: Parameters<Events[K]>) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(args);
+      };
+      this.once(event, listener as Events[K], options);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  // Async iterator over the argument tuples of every `event` emission, for `for await` loops.
+  // Ends when the loop breaks or `signal` aborts; `overflow: 'error'` makes the next read reject.
+  events<K extends keyof Events>(
+    event: K,
+    options: EventStreamOptions = {},
+  ): AsyncIterableIterator<Parameters<Events[K]>> {
+    type Args = Parameters<Events[K]>;
+    const { signal, highWaterMark = Infinity, overflow = 'drop-oldest' } = options;
+    const buffer: Args[] = [];
+    const waiting: ((r: IteratorResult<Args>) => void)[] = [];
+    let failure: unknown;
+    let done = false;
+
+    const close = () => {
+      if (done) return;
+      done = true;
+      unsubscribe();
+      signal?.removeEventListener('abort', close);
+      buffer.length = 0;
+      for (const resolve of waiting.splice(0)) resolve({ done: true, value: undefined });
+    };
+
+    const push = (...args: Args) => {
+      const next = waiting.shift();
+      if (next) return next({ done: false, value: args });
+      if (buffer.length < highWaterMark) return void buffer.push(args);
+      if (overflow === 'drop-oldest') {
+        buffer.shift();
+        buffer.push(args);
+      } else if (overflow === 'error') {
+        failure = new RangeError(`'${String(event)}' stream buffer exceeded ${highWaterMark} items`);
+        close();
+      }
+    };
+
+    const unsubscribe = this.on(event, push as Events[K]);
+    if (signal?.aborted) close();
+    else signal?.addEventListener('abort', close, { once: true });
+
+    return {
+      next(): Promise<IteratorResult<Args>> {
+        const value = buffer.shift();
+        if (value) return Promise.resolve({ done: false, value });
+        if (failure !== undefined) {
+          const err = failure;
+          failure = undefined;
+          return Promise.reject(err);
+        }
+        if (done) return Promise.resolve({ done: true, value: undefined });
+        return new Promise(resolve => waiting.push(resolve));
+      },
+      return(): Promise<IteratorResult<Args>> {
+        close();
+        return Promise.resolve({ done: true, value: undefined });
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  // 0 disables the leak warning.
+  setMaxListeners(n: number) {
+    this.maxListeners = n;
+  }
+
+  listenerCount(event: keyof Events | '*'): number {
+    return this.listeners.get(event)?.size ?? 0;
   }
 
   emit<K extends keyof Events>(event: K, ...args: Parameters<Events[K]>) {
-    const set = this.listeners.get(event);
-    if (!set) return;
-    for (const cb of set) {
-      (cb as Function)(...args);
+    const errors: unknown[] = [];
+    for (const call of this.snapshot(event, args)) {
+      try {
+        const result = call();
+        if (result instanceof Promise) result.catch(err => this.reportDetached(event, err));
+      } catch (err) {
+        errors.push(err);
+      }
+    }
+    this.reportErrors(event, errors);
+  }
+
+  // Awaits each listener in registration order.
+  async emitAsync<K extends keyof Events>(event: K, ...args: Parameters<Events[K]>) {
+    const errors: unknown[] = [];
+    for (const call of this.snapshot(event, args)) {
+      try {
+        await call();
+      } catch (err) {
+        errors.push(err);
+      }
+    }
+    this.reportErrors(event, errors);
+  }
+
+  // Starts every listener at once and waits for all of them to settle.
+  async emitParallel<K extends keyof Events>(event: K, ...args: Parameters<Events[K]>) {
+    const results = await Promise.allSettled(
+      this.snapshot(event, args).map(async call => call()),
+    );
+    const errors = results.flatMap(r => (r.status === 'rejected' ? [r.reason] : []));
+    this.reportErrors(event, errors);
+  }
+
+  private addListener(
+    event: keyof Events | '*',
+    cb: Function,
+    invoke: Function,
+    signal?: AbortSignal,
+  ): () => void {
+    if (signal?.aborted) return () => {};
+    // Registering the same callback again replaces (and detaches) the earlier registration.
+    this.removeListener(event, cb);
+    const map = this.listeners.get(event) ?? new Map<Function, Registration>();
+    const registration: Registration = {
+      invoke,
+      detach: () => signal?.removeEventListener('abort', unsubscribe),
+    };
+    map.set(cb, registration);
+    this.listeners.set(event, map);
+    if (this.maxListeners > 0 && map.size > this.maxListeners && !this.warned.has(event)) {
+      this.warned.add(event);
+      console.warn(
+        `Possible listener leak: ${map.size} '${String(event)}' listeners added ` +
+          `(limit ${this.maxListeners}). Use setMaxListeners() to raise it.`,
+      );
+    }
+    // Removes this registration only: by the time the signal aborts, `cb` may have been
+    // removed and registered again, and that later registration must survive.
+    const unsubscribe = () => {
+      if (this.listeners.get(event)?.get(cb) === registration) this.removeListener(event, cb);
+      else registration.detach();
+    };
+    signal?.addEventListener('abort', unsubscribe, { once: true });
+    return unsubscribe;
+  }
+
+  private removeListener(event: keyof Events | '*', cb: Function) {
+    const map = this.listeners.get(event);
+    map?.get(cb)?.detach();
+    map?.delete(cb);
+    if (map?.size === 0) this.listeners.delete(event);
+  }
+
+  // Copies the listener set first so listeners added or removed during an emit don't affect it.
+  private snapshot(event: keyof Events, args: unknown[]): (() => unknown)[] {
+    const direct = [...(this.listeners.get(event)?.values() ?? [])];
+    const wildcard = [...(this.listeners.get('*')?.values() ?? [])];
+    return [
+      ...direct.map(({ invoke }) => () => invoke(...args)),
+      ...wildcard.map(({ invoke }) => () => invoke(event, ...args)),
+    ];
+  }
+
+  private reportErrors(event: keyof Events, errors: unknown[]) {
+    if (errors.length === 0) return;
+    if (this.errorHandlers.size === 0) {
+      throw errors.length === 1 ? errors[0] : new AggregateError(errors, `listeners for '${String(event)}' failed`);
+    }
+    for (const err of errors) {
+      for (const handler of this.errorHandlers) handler(err, event);
+    }
+  }
+
+  // A rejection from a listener started by `emit` settles after `emit` has returned, so there is
+  // no caller left to rethrow to: it only reaches the error handlers, or a process warning
+  // without one (rather than crashing the process the way a rethrow would).
+  private reportDetached(event: keyof Events, err: unknown) {
+    if (this.errorHandlers.size === 0) {
+      const reason = err instanceof Error ? err.stack ?? err.message : String(err);
+      process.emitWarning(`Unhandled rejection in a '${String(event)}' listener (see onError): ${reason}`);
+      return;
+    }
+    for (const handler of this.errorHandlers) {
+      try {
+        handler(err, event);
+      } catch {
+        // Same as above: throwing here would be an unhandled rejection
+      }
     }
   }
 }
 
-type MyEvents = {
-  data: (msg: string) => void;
-  error: (err: Error) => void;
-};
+if (import.meta.filename === process.argv[1]) {
+  type MyEvents = {
+    data: (msg: string) => void;
+    error: (err: Error) => void;
+  };
+
+  const emitter = new TypedEventEmitter<MyEvents>();
+  emitter.on('data', msg => console.log('event data:', msg));
+  emitter.emit('data', 'hello events');
+
+  // once / wildcard / error isolation
+  emitter.once('data', msg => console.log('first data only:', msg));
+  emitter.on('*', (event, ...args) => console.log('wildcard:', event, args));
+  emitter.on('data', () => {
+    throw new Error('listener failed');
+  });
+  emitter.onError((err, event) => console.log(`error in '${String(event)}' listener:`, (err as Error).message));
+  emitter.emit('data', 'second');
+
+  // Promise-based helpers
+  emitter.waitFor('data').then(([msg]) => console.log('waitFor resolved:', msg));
+  emitter.emitAsync('data', 'awaited in order').then(() => emitter.emitParallel('data', 'awaited together'));
+
+  // AbortSignal-scoped listeners and `for await` consumption
+  const ticks = new TypedEventEmitter<{ tick: (n: number) => void }>();
+  const stop = new AbortController();
+  ticks.on('tick', n => console.log('signal-scoped tick:', n), { signal: stop.signal });
+
+  (async () => {
+    for await (const [n] of ticks.events('tick', { signal: stop.signal, highWaterMark: 100 })) {
+      console.log('for await tick:', n);
+    }
+    console.log('tick stream closed');
+  })();
 
-const emitter = new TypedEventEmitter<MyEvents>();
-emitter.on('data', msg => console.log('event data:', msg));
-emitter.emit('data', 'hello events');
+  ticks.emit('tick', 1);
+  ticks.emit('tick', 2);
+  setTimeout(() => stop.abort(), 0);
+}
 
 // 3) Simple generic Pair class with swap
 class Pair<T, U> {
@@ -359,4 +734,203 @@ const p = new Pair(1, 'one');
 const swappedPair = p.swap();
 console.log('Pair swapped:', swappedPair.first, swappedPair.second);
 
-export {};
+// 4) Binary-heap priority queue with a pluggable comparator
+// `compare(a, b) < 0` means `a` is served before `b` (a min-heap by default).
+type Comparator<T> = (a: T, b: T) => number;
+
+const defaultCompare = <T>(a: T, b: T): number => (a < b ? -1 : a > b ? 1 : 0);
+
+class PriorityQueue<T> implements Iterable<T> {
+  private heap: T[] = [];
+
+  constructor(private compare: Comparator<T> = defaultCompare) {}
+
+  // Builds the heap bottom-up in O(n) instead of n pushes.
+  static heapify<T>(arr: T[], compare: Comparator<T> = defaultCompare): PriorityQueue<T> {
+    const q = new PriorityQueue<T>(compare);
+    q.heap = arr.slice();
+    for (let i = (q.heap.length >> 1) - 1; i >= 0; i--) q.siftDown(i);
+    return q;
+  }
+
+  push(value: T) {
+    this.heap.push(value);
+    this.siftUp(this.heap.length - 1);
+  }
+
+  pop(): T | undefined {
+    const top = this.heap[0];
+    const last = this.heap.pop();
+    if (this.heap.length > 0 && last !== undefined) {
+      this.heap[0] = last;
+      this.siftDown(0);
+    }
+    return top;
+  }
+
+  peek(): T | undefined {
+    return this.heap[0];
+  }
+
+  // Replaces `value` with `next` (or re-sifts it after an in-place mutation).
+  updatePriority(value: T, next: T = value): boolean {
+    const idx = this.heap.indexOf(value);
+    if (idx === -1) return false;
+    this.heap[idx] = next;
+    this.siftUp(idx);
+    this.siftDown(idx);
+    return true;
+  }
+
+  size() {
+    return this.heap.length;
+  }
+
+  clear() {
+    this.heap = [];
+  }
+
+  // Values in priority order; the queue itself is left untouched.
+  toArray(): T[] {
+    return this.heap.slice().sort(this.compare);
+  }
+
+  [Symbol.iterator](): Iterator<T> {
+    return this.toArray()[Symbol.iterator]();
+  }
+
+  private siftUp(idx: number) {
+    const h = this.heap;
+    while (idx > 0) {
+      const parent = (idx - 1) >> 1;
+      if (this.compare(h[idx]!, h[parent]!) >= 0) break;
+      [h[idx], h[parent]] = [h[parent]!, h[idx]!];
+      idx = parent;
+    }
+  }
+
+  private siftDown(idx: number) {
+    const h = this.heap;
+    for (;;) {
+      const left = idx * 2 + 1;
+      const right = left + 1;
+      let best = idx;
+      if (left < h.length && this.compare(h[left]!, h[best]!) < 0) best = left;
+      if (right < h.length && this.compare(h[right]!, h[best]!) < 0) best = right;
+      if (best === idx) return;
+      [h[idx], h[best]] = [h[best]!, h[idx]!];
+      idx = best;
+    }
+  }
+}
+
+if (import.meta.filename === process.argv[1]) {
+  type Task = { name: string; priority: number };
+  const tasks = new PriorityQueue<Task>((a, b) => a.priority - b.priority);
+  const report: Task = { name: 'report', priority: 5 };
+  tasks.push(report);
+  tasks.push({ name: 'deploy', priority: 1 });
+  tasks.push({ name: 'lunch', priority: 3 });
+  report.priority = 0;
+  tasks.updatePriority(report);
+  console.log('PriorityQueue pop:', tasks.pop()?.name); // report
+  console.log('heapify:', PriorityQueue.heapify([5, 1, 4, 2]).toArray()); // [1, 2, 4, 5]
+}
+
+// 5) Double-ended queue backed by a growable ring buffer
+class Deque<T> implements Iterable<T> {
+  private buffer: (T | undefined)[];
+  private head = 0;
+  private _size = 0;
+
+  constructor(initialCapacity = 16) {
+    this.buffer = new Array(Math.max(1, initialCapacity));
+  }
+
+  static fromArray<T>(arr: T[]): Deque<T> {
+    const d = new Deque<T>(arr.length);
+    for (const v of arr) d.pushBack(v);
+    return d;
+  }
+
+  pushBack(value: T) {
+    if (this._size === this.buffer.length) this.grow();
+    this.buffer[(this.head + this._size) % this.buffer.length] = value;
+    this._size++;
+  }
+
+  pushFront(value: T) {
+    if (this._size === this.buffer.length) this.grow();
+    this.head = (this.head - 1 + this.buffer.length) % this.buffer.length;
+    this.buffer[this.head] = value;
+    this._size++;
+  }
+
+  popFront(): T | undefined {
+    if (this._size === 0) return undefined;
+    const value = this.buffer[this.head];
+    this.buffer[this.head] = undefined;
+    this.head = (this.head + 1) % this.buffer.length;
+    this._size--;
+    return value;
+  }
+
+  popBack(): T | undefined {
+    if (this._size === 0) return undefined;
+    const idx = (this.head + this._size - 1) % this.buffer.length;
+    const value = this.buffer[idx];
+    this.buffer[idx] = undefined;
+    this._size--;
+    return value;
+  }
+
+  peekFront(): T | undefined {
+    return this.at(0);
+  }
+
+  peekBack(): T | undefined {
+    return this.at(this._size - 1);
+  }
+
+  at(index: number): T | undefined {
+    if (index < 0 || index >= this._size) return undefined;
+    return this.buffer[(this.head + index) % this.buffer.length];
+  }
+
+  size() {
+    return this._size;
+  }
+
+  clear() {
+    this.buffer = new Array(this.buffer.length);
+    this.head = 0;
+    this._size = 0;
+  }
+
+  toArray(): T[] {
+    return [...this];
+  }
+
+  *[Symbol.iterator](): Iterator<T> {
+    for (let i = 0; i < this._size; i++) yield this.at(i)!;
+  }
+
+  // Doubles capacity and unwraps the ring so `head` starts at 0 again.
+  private grow() {
+    const next = new Array<T | undefined>(this.buffer.length * 2);
+    for (let i = 0; i < this._size; i++) next[i] = this.at(i);
+    this.buffer = next;
+    this.head = 0;
+  }
+}
+
+if (import.meta.filename === process.argv[1]) {
+  const dq = new Deque<number>(2);
+  dq.pushBack(2);
+  dq.pushBack(3);
+  dq.pushFront(1); // triggers a grow
+  console.log('Deque:', dq.toArray(), 'popFront:', dq.popFront(), 'popBack:', dq.popBack());
+}
+
+export { LinkedList, LinkedListNode, TypedEventEmitter, PriorityQueue, Deque };
+export type { EventMap, WildcardListener, ListenerErrorHandler, ListenerOptions, EventStreamOptions, Comparator };
@@ -0,0 +1,329 @@
+/**
+ * Typed HTML Rendering
+ * Builds HTML from the `HTMLElement` tag names (template-literal-types.ts) with
+ * `h(tag, attrs, ...children)`. Each tag only accepts its own attributes, void tags take
+ * no children, and all text and attribute values are escaped. Trees render to a compact
+ * or pretty-printed string, or chunk by chunk to a stream for large documents.
+ */
+
+import * as stream from "node:stream";
+import type { HTMLElement as TagName, HTMLTag, HTMLTagWithAttribute } from "./template-literal-types.js";
+
+// ===== TYPES =====
+
+declare const rawBrand: unique symbol;
+
+// Trusted markup that is emitted as-is; only produced by raw()
+type RawHtml = { readonly html: string; readonly [rawBrand]: true };
+
+type ClassValue = string | readonly (string | false | null | undefined)[];
+
+type GlobalAttributes = {
+  id?: string;
+  class?: ClassValue;
+  style?: string;
+  title?: string;
+  lang?: string;
+  hidden?: boolean;
+  tabindex?: number;
+  role?: string;
+} & { [K in `data-${string}` | `aria-${string}`]?: string | number | boolean };
+
+type AttributesByTag = {
+  div: {};
+  span: {};
+  p: {};
+  button: { type?: "button" | "submit" | "reset"; name?: string; value?: string; disabled?: boolean; form?: string };
+  input: {
+    type?: "text" | "email" | "password" | "number" | "checkbox" | "radio" | "date" | "hidden" | "search" | "submit";
+    name?: string;
+    value?: string | number;
+    placeholder?: string;
+    checked?: boolean;
+    disabled?: boolean;
+    required?: boolean;
+    readonly?: boolean;
+    min?: string | number;
+    max?: string | number;
+    maxlength?: number;
+    pattern?: string;
+    autocomplete?: string;
+  };
+  form: { action?: string; method?: "get" | "post"; enctype?: "application/x-www-form-urlencoded" | "multipart/form-data"; novalidate?: boolean; name?: string };
+};
+
+type Attributes<T extends TagName> = GlobalAttributes & AttributesByTag[T];
+
+type VoidElement = "input";
+
+// Anything that can appear as a child; iterables are rendered lazily (a generator only once)
+type Child = Element | RawHtml | string | number | boolean | null | undefined | Iterable<Child>;
+
+type Element<T extends TagName = TagName> = {
+  readonly tag: T;
+  readonly attrs: Attributes<T>;
+  readonly children: readonly Child[];
+};
+
+// What render() returns for an element of tag T: `HTMLTag<T>` without attributes,
+// `HTMLTagWithAttribute<T>` with only a class, otherwise any attribute list
+type Markup<T extends TagName> = `${HTMLTag<T> | HTMLTagWithAttribute<T> | `<${T} ${string}>`}${string}`;
+
+type RenderOptions = {
+  // Put each child element on its own, indented line
+  pretty?: boolean;
+  // Indentation unit when pretty (default two spaces)
+  indent?: string;
+};
+
+type StreamOptions = RenderOptions & {
+  // Chunks smaller than this are buffered before being pushed (default 16 KiB)
+  highWaterMark?: number;
+};
+
+export type { RawHtml, ClassValue, GlobalAttributes, AttributesByTag, Attributes, VoidElement, Child, Element, Markup, RenderOptions, StreamOptions };
+
+class HtmlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HtmlError";
+  }
+}
+
+// ===== BUILDING =====
+
+const TAGS = new Set<string>(["div", "span", "p", "button", "input", "form"] satisfies TagName[]);
+const VOID_TAGS = new Set<string>(["input"] satisfies VoidElement[]);
+// Whitespace between these is not rendered, so pretty printing may break lines there
+const BLOCK_TAGS = new Set<string>(["div", "p", "form"] satisfies TagName[]);
+
+// Only objects made by h() and raw() are rendered as markup; a look-alike object (e.g. from
+// JSON.parse) is rejected instead of letting it inject tags or unescaped HTML
+const trusted = new WeakSet<object>();
+
+function h<T extends TagName>(
+  tag: T,
+  attrs?: Attributes<T> | null,
+  ...children: T extends VoidElement ? [] : Child[]
+): Element<T> {
+  // Tags may come from untyped data, so check them at runtime as well
+  if (!TAGS.has(tag)) throw new HtmlError(`Unknown tag <${tag}>`);
+  if (VOID_TAGS.has(tag) && children.length > 0) throw new HtmlError(`<${tag}> can't have children`);
+  const element: Element<T> = { tag, attrs: attrs ?? ({} as Attributes<T>), children };
+  trusted.add(element);
+  return element;
+}
+
+function raw(html: string): RawHtml {
+  const markup = { html } as RawHtml;
+  trusted.add(markup);
+  return markup;
+}
+
+const isElement = (value: object): value is Element => trusted.has(value) && "tag" in value;
+
+const isRaw = (value: object): value is RawHtml => trusted.has(value) && "html" in value;
+
+// ===== ESCAPING =====
+
+const TEXT_ESCAPES: Record<string, string> = { "&": "&amp;", "<": "&lt;", ">": "&gt;" };
+const ATTR_ESCAPES: Record<string, string> = { ...TEXT_ESCAPES, '"': "&quot;" };
+
+const escapeText = (text: string) => text.replace(/[&<>]/g, (c) => TEXT_ESCAPES[c]!);
+
+const escapeAttr = (text: string) => text.replace(/[&<>"]/g, (c) => ATTR_ESCAPES[c]!);
+
+// data-*/aria-* names are open-ended, so reject anything that could break out of the tag
+const ATTR_NAME = /^[a-z][a-z0-9-]*$/;
+
+function renderAttrs(attrs: Record<string, unknown>): string {
+  let out = "";
+  for (const [name, value] of Object.entries(attrs)) {
+    if (value === undefined || value === null || value === false) continue;
+    if (!ATTR_NAME.test(name)) throw new HtmlError(`Invalid attribute name "${name}"`);
+    if (value === true) {
+      // aria-* and data-* are string-valued; true means "true", not a bare flag
+      out += name.startsWith("aria-") || name.startsWith("data-") ? ` ${name}="true"` : ` ${name}`;
+      continue;
+    }
+    const text = name === "class" && Array.isArray(value) ? value.filter(Boolean).join(" ") : String(value);
+    out += ` ${name}="${escapeAttr(text)}"`;
+  }
+  return out;
+}
+
+// ===== RENDERING =====
+
+// Flattens nested arrays and iterables and drops empty children, without materializing them
+function* flatten(children: Iterable<Child>): Generator<Element | RawHtml | string> {
+  for (const child of children) {
+    if (child === null || child === undefined || child === false || child === true) continue;
+    if (typeof child === "string" || typeof child === "number") yield String(child);
+    else if (isElement(child) || isRaw(child)) yield child;
+    else if (Symbol.iterator in child) yield* flatten(child);
+    else throw new HtmlError("Objects can't be children unless they come from h() or raw()");
+  }
+}
+
+const isBlock = (node: Element | RawHtml | string) => typeof node !== "string" && isElement(node) && BLOCK_TAGS.has(node.tag);
+
+function* renderNode(node: Element | RawHtml | string, options: Required<RenderOptions>, depth: number): Generator<string> {
+  if (typeof node === "string") {
+    yield escapeText(node);
+    return;
+  }
+  if (!isElement(node)) {
+    yield node.html;
+    return;
+  }
+
+  const open = `<${node.tag}${renderAttrs(node.attrs)}>`;
+  if (VOID_TAGS.has(node.tag)) {
+    yield open;
+    return;
+  }
+
+  // Pretty printing only adds whitespace where it can't change the rendered text: between
+  // block children of a block element. Text and inline elements stay on one line.
+  const breaks = options.pretty && BLOCK_TAGS.has(node.tag);
+  yield open;
+  let afterBlock = true;
+  let empty = true;
+  for (const child of flatten(node.children)) {
+    const block = isBlock(child);
+    if (breaks && block && afterBlock) yield `\n${options.indent.repeat(depth + 1)}`;
+    yield* renderNode(child, options, depth + 1);
+    afterBlock = block;
+    empty = false;
+  }
+  if (breaks && afterBlock && !empty) yield `\n${options.indent.repeat(depth)}`;
+  yield `</${node.tag}>`;
+}
+
+function* renderChunks(root: Child, options: RenderOptions = {}): Generator<string> {
+  const resolved = { pretty: options.pretty ?? false, indent: options.indent ?? "  " };
+  let afterBlock = false;
+  for (const node of flatten([root])) {
+    const block = isBlock(node);
+    if (resolved.pretty && block && afterBlock) yield "\n";
+    afterBlock = block;
+    yield* renderNode(node, resolved, 0);
+  }
+}
+
+function render<T extends TagName>(root: Element<T>, options?: RenderOptions): Markup<T>;
+function render(root: Child, options?: RenderOptions): string;
+function render(root: Child, options?: RenderOptions): string {
+  let out = "";
+  for (const chunk of renderChunks(root, options)) out += chunk;
+  return out;
+}
+
+// Lazily renders into a Readable: children that are generators are only pulled as the
+// consumer reads, so a large report never has to exist in memory as one string
+function renderToStream(root: Child, options: StreamOptions = {}): stream.Readable {
+  const highWaterMark = options.highWaterMark ?? 16 * 1024;
+  function* batched(): Generator<string> {
+    let buffer = "";
+    for (const chunk of renderChunks(root, options)) {
+      buffer += chunk;
+      if (buffer.length >= highWaterMark) {
+        yield buffer;
+        buffer = "";
+      }
+    }
+    if (buffer) yield buffer;
+  }
+  return stream.Readable.from(batched(), { objectMode: false, encoding: "utf8" });
+}
+
+export { h, raw, render, renderChunks, renderToStream, HtmlError };
+
+// ===== USAGE EXAMPLE =====
+
+if (import.meta.filename === process.argv[1]) {
+  type Row = { name: string; amount: number };
+  const rows: Row[] = [
+    { name: "Widgets", amount: 1200 },
+    { name: "<script>alert(1)</script>", amount: 0 },
+  ];
+
+  const report = h(
+    "div",
+    { class: ["report", rows.length === 0 && "empty"], "data-rows": rows.length },
+    h("p", null, "Quarterly totals"),
+    rows.map((row) => h("div", { class: "row" }, h("span", null, row.name), " ", h("span", { class: "amount" }, row.amount))),
+    h(
+      "form",
+      { method: "post", action: "/export?format=csv&rows=all" },
+      h("input", { type: "hidden", name: "token", value: 'a"b' }),
+      h("button", { type: "submit", disabled: rows.length === 0 }, "Export")
+    )
+  );
+
+  const html = render(report);
+  console.log(html.slice(0, 60)); // <div class="report" data-rows="2"><p>Quarterly totals</p><di
+  console.log(html.includes("&lt;script&gt;"), html.includes('value="a&quot;b"')); // true true
+
+  console.log(render(report, { pretty: true }));
+  // <div class="report" data-rows="2">
+  //   <p>Quarterly totals</p>
+  //   <div class="row"><span>Widgets</span> <span class="amount">1200</span></div>
+  //   ...
+
+  const heading: Markup<"p"> = render(h("p", { class: "title" }, "Hi"));
+  console.log(heading); // <p class="title">Hi</p>
+
+  console.log(render(h("span", null, raw("&copy; 2024"), " ACME"))); // <span>&copy; 2024 ACME</span>
+
+  // Inline content keeps its exact whitespace when pretty-printed
+  console.log(render(h("p", null, "a ", h("span", null, "b"), "!"), { pretty: true })); // <p>a <span>b</span>!</p>
+
+  // h("table", null);                          // Error: "table" is not an HTMLElement
+  // h("input", { type: "text" }, "child");     // Error: <input> takes no children
+  // h("div", { method: "post" });              // Error: method is a <form> attribute
+  // h("button", { type: "link" });             // Error: not a button type
+
+  // Streaming: rows come from a generator and are rendered as the stream is read
+  function* manyRows(count: number) {
+    for (let i = 0; i < count; i++) yield h("div", { class: "row" }, h("span", null, `Item ${i}`));
+  }
+
+  let streamed = 0;
+  renderToStream(h("div", { id: "big" }, manyRows(10_000)), { highWaterMark: 64 * 1024 })
+    .on("data", (chunk: string) => (streamed += chunk.length))
+    .on("end", () => console.log("streamed", streamed, "chars")); // streamed 448910 chars
+
+  try {
+    render(h("div", { "data-x onclick": "x" }));
+  } catch (e) {
+    console.log((e as Error).message); // Invalid attribute name "data-x onclick"
+  }
+
+  // Untrusted data that merely looks like raw() output is not rendered as markup
+  const comment = JSON.parse('{"html": "<img src=x onerror=alert(1)>"}') as Child;
+  try {
+    render(h("p", null, comment));
+  } catch (e) {
+    console.log((e as Error).message); // Objects can't be children unless they come from h() or raw()
+  }
+}
+
+// ===== KEY CONCEPTS =====
+
+/*
+ * 1. Typed builder:
+ *    - tags are limited to the HTMLElement union
+ *    - attributes are global ones plus the tag's own (AttributesByTag[T])
+ *    - void tags (<input>) take no children
+ *
+ * 2. Safe by default:
+ *    - text and attribute values are escaped; raw() opts out explicitly
+ *    - only elements and markup made by h() / raw() are trusted, not look-alike objects
+ *    - there are no on* attributes, and open-ended data-* names are checked
+ *
+ * 3. Rendering is a generator of chunks:
+ *    - render() joins them, compact or pretty-printed (line breaks only between blocks)
+ *    - renderToStream() batches them into a Readable, pulling lazy
+ *      (generator) children only as the consumer reads
+ */
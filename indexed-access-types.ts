@@ -4,10 +4,14 @@
  * using indexing syntax similar to accessing object properties
  */
 
+import { AsyncLocalStorage } from "node:async_hooks";
+import * as fs from "node:fs/promises";
+import { loadConfig } from "./config.js";
+
 // ===== BASIC INDEXED ACCESS =====
 
 // Example 1: Access property type from an object type
-interface User {
+export interface User {
   id: number;
   name: string;
   email: string;
@@ -67,6 +71,7 @@ type UserNameType = PropertyType<User, "name">;    // string
 // ===== NESTED INDEXED ACCESS =====
 
 // Example 7: Access nested properties
+// (paths.ts does the same at runtime: get(user, "address.city"))
 interface Address {
   street: string;
   city: string;
@@ -98,38 +103,52 @@ type ReadonlySecond = ReadonlyTuple[1];  // number
 // ===== PRACTICAL EXAMPLES =====
 
 // Example 11: Generic getter function
-interface Config {
+export interface Config {
   apiUrl: string;
   timeout: number;
   retries: number;
   debug: boolean;
 }
 
-function getConfig<K extends keyof Config>(key: K): Config[K] {
-  const config: Config = {
-    apiUrl: "https://api.example.com",
-    timeout: 5000,
-    retries: 3,
-    debug: false,
-  };
-  return config[key];
+// Loaded on first use from these defaults, config.json, APP_* env vars and CLI flags (config.ts)
+let appConfig: ReturnType<typeof loadConfig<Config>> | undefined;
+
+function configStore() {
+  appConfig ??= loadConfig<Config>({
+    defaults: {
+      apiUrl: "https://api.example.com",
+      timeout: 5000,
+      retries: 3,
+      debug: false,
+    },
+    file: "config.json",
+  });
+  return appConfig;
 }
 
-const apiUrl = getConfig("apiUrl");      // type: string
-const timeout = getConfig("timeout");    // type: number
+export function getConfig<K extends keyof Config>(key: K): Config[K] {
+  return configStore().get(key);
+}
+
+if (import.meta.filename === process.argv[1]) {
+  const apiUrl = getConfig("apiUrl");      // type: string
+  const timeout = getConfig("timeout");    // type: number
+}
 
 // Example 12: Type-safe object updates
-function updateConfig<K extends keyof Config>(
+// Throws ConfigError (config.ts) if the value fails validation
+export function updateConfig<K extends keyof Config>(
   key: K,
   value: Config[K]
 ): void {
-  // Implementation
-  console.log(`Setting ${String(key)} to ${value}`);
+  configStore().update(key, value);
 }
 
-updateConfig("apiUrl", "https://new-api.example.com");  // ✓ Valid
-updateConfig("timeout", 10000);                         // ✓ Valid
-// updateConfig("timeout", "invalid");                  // ✗ Error: string is not assignable to number
+if (import.meta.filename === process.argv[1]) {
+  updateConfig("apiUrl", "https://new-api.example.com");  // ✓ Valid
+  updateConfig("timeout", 10000);                         // ✓ Valid
+  // updateConfig("timeout", "invalid");                  // ✗ Error: string is not assignable to number
+}
 
 // Example 13: Extract function parameter type
 interface Handlers {
@@ -141,7 +160,7 @@ interface Handlers {
 type OnClickHandler = Handlers["onClick"];  // (id: number) => void
 
 // Example 14: Extract from function return types
-interface ApiEndpoints {
+export interface ApiEndpoints {
   getUser: () => Promise<User>;
   getUsers: () => Promise<User[]>;
   getConfig: () => Config;
@@ -182,53 +201,405 @@ type UserEndpointResponse = ApiResponse<"user">;    // User
 type ConfigEndpointResponse = ApiResponse<"config">; // Config
 
 // Example 18: Generic repository with indexed access
-class Repository<T extends Record<string, any>> {
-  private data: T[] = [];
+// Reads are served from memory; every write is persisted through a StorageAdapter.
+export interface StorageAdapter<T> {
+  load(): Promise<T[]>;
+  save(items: T[]): Promise<void>;
+}
 
-  findByProperty<K extends keyof T>(
-    key: K,
-    value: T[K]
-  ): T | undefined {
-    return this.data.find((item) => item[key] === value);
+export class MemoryStorage<T> implements StorageAdapter<T> {
+  private items: T[] = [];
+
+  async load(): Promise<T[]> {
+    return structuredClone(this.items);
   }
 
-  filterByProperty<K extends keyof T>(
-    key: K,
-    value: T[K]
-  ): T[] {
-    return this.data.filter((item) => item[key] === value);
+  async save(items: T[]): Promise<void> {
+    this.items = structuredClone(items);
+  }
+}
+
+// Items must be JSON-serializable; writes go to a temp file first and are renamed into place
+export class JsonFileStorage<T> implements StorageAdapter<T> {
+  constructor(private path: string) {}
+
+  async load(): Promise<T[]> {
+    try {
+      return JSON.parse(await fs.readFile(this.path, "utf8")) as T[];
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw e;
+    }
+  }
+
+  async save(items: T[]): Promise<void> {
+    const tmp = `${this.path}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(items, null, 2));
+    await fs.rename(tmp, this.path);
+  }
+}
+
+export type Entity = { id: string | number };
+
+export type OrderBy<T> = { key: keyof T; direction?: "asc" | "desc" };
+
+export type Query<T> = {
+  // Each entry is an exact value or a predicate on that property
+  where?: { [K in keyof T]?: T[K] | ((value: T[K]) => boolean) };
+  orderBy?: OrderBy<T> | OrderBy<T>[];
+  limit?: number;
+  offset?: number;
+};
+
+export type RepositoryOptions<T> = {
+  storage?: StorageAdapter<T>;
+  // Keys looked up through a hash index instead of a scan
+  indexes?: (keyof T)[];
+  // Called when a subscriber throws; the change it was given is already committed
+  onSubscriberError?: (error: unknown, change: Change<T>) => void;
+};
+
+// One committed write, as delivered to change-feed subscribers
+export type Change<T> =
+  | { type: "insert"; before: undefined; after: Readonly<T> }
+  | { type: "update"; before: Readonly<T>; after: Readonly<T> }
+  | { type: "delete"; before: Readonly<T>; after: undefined };
+
+// Writes made through a transaction are only visible to it until the callback resolves
+export interface Transaction<T extends Entity> {
+  get(id: T["id"]): Readonly<T> | undefined;
+  find(query?: Query<T>): Readonly<T>[];
+  create(item: T): Readonly<T>;
+  update(id: T["id"], patch: Partial<Omit<T, "id">>): Readonly<T>;
+  delete(id: T["id"]): boolean;
+}
+
+export class Repository<T extends Entity> {
+  private data = new Map<T["id"], T>();
+  private indexes = new Map<keyof T, Map<unknown, Set<T["id"]>>>();
+  private storage: StorageAdapter<T>;
+  // Every write, direct or transactional, runs on this chain one at a time
+  private writes: Promise<unknown> = Promise.resolve();
+  private subscribers = new Set<(change: Change<T>) => void>();
+  private loaded: Promise<void> | undefined;
+  // Set while a transaction callback runs, so writes it makes directly can be told apart
+  private inTransaction = new AsyncLocalStorage<boolean>();
+
+  // The storage is loaded before the first write, so a write never saves over items it
+  // hasn't seen. Reads only see stored items once that has happened; use `open` to wait.
+  constructor(private options: RepositoryOptions<T> = {}) {
+    this.storage = options.storage ?? new MemoryStorage<T>();
+    for (const key of options.indexes ?? []) this.indexes.set(key, new Map());
+  }
+
+  // Creates a repository hydrated from the storage backend
+  static async open<T extends Entity>(options: RepositoryOptions<T> = {}): Promise<Repository<T>> {
+    const repo = new Repository<T>(options);
+    await repo.load();
+    return repo;
+  }
+
+  // Called once per committed change, after it has been persisted; a throwing subscriber
+  // doesn't fail the write
+  subscribe(listener: (change: Change<T>) => void): () => void {
+    this.subscribers.add(listener);
+    return () => this.subscribers.delete(listener);
+  }
+
+  create(item: T): Promise<Readonly<T>> {
+    return this.enqueue(async () => {
+      if (this.data.has(item.id)) throw new Error(`Duplicate id: ${item.id}`);
+      const after = { ...item };
+      await this.commit([{ type: "insert", before: undefined, after }]);
+      return after;
+    });
+  }
+
+  get(id: T["id"]): Readonly<T> | undefined {
+    return this.data.get(id);
+  }
+
+  // The id itself cannot be changed through an update
+  update(id: T["id"], patch: Partial<Omit<T, "id">>): Promise<Readonly<T>> {
+    return this.enqueue(async () => {
+      const before = this.data.get(id);
+      if (!before) throw new Error(`No item with id: ${id}`);
+      const after = { ...before, ...patch, id } as T;
+      await this.commit([{ type: "update", before, after }]);
+      return after;
+    });
+  }
+
+  delete(id: T["id"]): Promise<boolean> {
+    return this.enqueue(async () => {
+      const before = this.data.get(id);
+      if (!before) return false;
+      await this.commit([{ type: "delete", before, after: undefined }]);
+      return true;
+    });
+  }
+
+  // Buffers every write made through `tx` and commits them together once `fn` resolves.
+  // If `fn` throws or the commit fails, none of the writes are applied.
+  // Runs in the same queue as create/update/delete, so `fn` must write through `tx`:
+  // direct writes (and nested transactions) made from inside it are rejected.
+  transaction<R>(fn: (tx: Transaction<T>) => Promise<R>): Promise<R> {
+    return this.enqueue(async () => {
+      const staged = new Map<T["id"], T | null>();
+      // The version each staged item had when the transaction first touched it
+      const base = new Map<T["id"], T | undefined>();
+      const read = (id: T["id"]) => (staged.has(id) ? staged.get(id) ?? undefined : this.data.get(id));
+      const stage = (id: T["id"], item: T | null) => {
+        if (!base.has(id)) base.set(id, this.data.get(id));
+        staged.set(id, item);
+      };
+
+      const tx: Transaction<T> = {
+        get: read,
+        find: (query) => {
+          const ids = new Set([...this.data.keys(), ...staged.keys()]);
+          const items = [...ids].map(read).filter((item): item is T => item !== undefined);
+          return this.select(items, query);
+        },
+        create: (item) => {
+          if (read(item.id)) throw new Error(`Duplicate id: ${item.id}`);
+          const after = { ...item };
+          stage(after.id, after);
+          return after;
+        },
+        update: (id, patch) => {
+          const before = read(id);
+          if (!before) throw new Error(`No item with id: ${id}`);
+          const after = { ...before, ...patch, id } as T;
+          stage(id, after);
+          return after;
+        },
+        delete: (id) => {
+          if (!read(id)) return false;
+          stage(id, null);
+          return true;
+        },
+      };
+
+      const result = await this.inTransaction.run(true, () => fn(tx));
+
+      const changes: Change<T>[] = [];
+      for (const [id, after] of staged) {
+        const before = base.get(id);
+        if (!before && after) changes.push({ type: "insert", before: undefined, after });
+        else if (before && after) changes.push({ type: "update", before, after });
+        else if (before) changes.push({ type: "delete", before, after: undefined });
+      }
+      await this.commit(changes);
+      return result;
+    });
   }
 
-  updateProperty<K extends keyof T>(
-    id: number,
+  findByProperty<K extends keyof T>(key: K, value: T[K]): Readonly<T> | undefined {
+    return this.filterByProperty(key, value)[0];
+  }
+
+  filterByProperty<K extends keyof T>(key: K, value: T[K]): Readonly<T>[] {
+    const index = this.indexes.get(key);
+    if (index) return [...(index.get(value) ?? [])].map((id) => this.data.get(id)!);
+    return [...this.data.values()].filter((item) => item[key] === value);
+  }
+
+  updateProperty<K extends Exclude<keyof T, "id">>(
+    id: T["id"],
     key: K,
     value: T[K]
-  ): void {
-    const item = this.data.find((item) => item.id === id);
-    if (item) {
-      item[key] = value;
+  ): Promise<Readonly<T>> {
+    const patch: Partial<T> = {};
+    patch[key] = value;
+    return this.update(id, patch);
+  }
+
+  find(query: Query<T> = {}): Readonly<T>[] {
+    // Start from an indexed equality condition if there is one
+    const indexed = Object.entries(query.where ?? {}).find(
+      ([key, cond]) => this.indexes.has(key as keyof T) && typeof cond !== "function"
+    );
+    const candidates = indexed
+      ? this.filterByProperty(indexed[0] as keyof T, indexed[1] as T[keyof T])
+      : [...this.data.values()];
+    return this.select(candidates, query);
+  }
+
+  count(query: Pick<Query<T>, "where"> = {}): number {
+    return this.find(query).length;
+  }
+
+  private select(items: Readonly<T>[], query: Query<T> = {}): Readonly<T>[] {
+    const { where = {}, orderBy = [], offset = 0, limit = Infinity } = query;
+    const conditions = Object.entries(where) as [keyof T, unknown][];
+
+    const matches = items.filter((item) =>
+      conditions.every(([key, cond]) =>
+        typeof cond === "function" ? (cond as (v: unknown) => boolean)(item[key]) : item[key] === cond
+      )
+    );
+
+    const sorts = Array.isArray(orderBy) ? orderBy : [orderBy];
+    if (sorts.length) {
+      matches.sort((a, b) => {
+        for (const { key, direction = "asc" } of sorts) {
+          if (a[key] === b[key]) continue;
+          const cmp = a[key] < b[key] ? -1 : 1;
+          return direction === "asc" ? cmp : -cmp;
+        }
+        return 0;
+      });
+    }
+    return matches.slice(offset, offset + limit);
+  }
+
+  private enqueue<R>(write: () => Promise<R>): Promise<R> {
+    // Queued behind the transaction it was made from, the write would wait forever
+    if (this.inTransaction.getStore()) {
+      return Promise.reject(new Error("Write through the transaction, not the repository, inside transaction()"));
+    }
+    const run = this.writes.then(() => this.load()).then(write);
+    this.writes = run.catch(() => {});
+    return run;
+  }
+
+  // Loads once; a failed load is retried by the next write instead of being skipped
+  private load(): Promise<void> {
+    this.loaded ??= this.storage.load().then(
+      (items) => {
+        for (const item of items) {
+          this.data.set(item.id, item);
+          this.index(item);
+        }
+      },
+      (error: unknown) => {
+        this.loaded = undefined;
+        throw error;
+      }
+    );
+    return this.loaded;
+  }
+
+  // Applies the changes in memory, persists them, then notifies subscribers. Items are
+  // replaced, never mutated, so an item's identity is its version: a change whose `before`
+  // is no longer the stored item is rejected rather than overwriting a newer write.
+  // A failed save restores the previous in-memory state; nothing else can have been
+  // written meanwhile, because commits only run from the write queue.
+  private async commit(changes: Change<T>[]) {
+    if (changes.length === 0) return;
+    for (const change of changes) {
+      const id = change.type === "insert" ? change.after.id : change.before.id;
+      if (this.data.get(id) !== change.before) {
+        throw new Error(change.type === "insert" ? `Duplicate id: ${id}` : `Conflicting write to id: ${id}`);
+      }
+    }
+    for (const change of changes) this.apply(change.before, change.after);
+    try {
+      await this.storage.save([...this.data.values()]);
+    } catch (e) {
+      for (const change of [...changes].reverse()) this.apply(change.after, change.before);
+      throw e;
+    }
+    this.notify(changes);
+  }
+
+  private notify(changes: Change<T>[]) {
+    for (const change of changes) {
+      for (const listener of this.subscribers) {
+        try {
+          listener(change);
+        } catch (e) {
+          this.options.onSubscriberError?.(e, change);
+        }
+      }
+    }
+  }
+
+  private apply(from: Readonly<T> | undefined, to: Readonly<T> | undefined) {
+    if (from) {
+      this.unindex(from);
+      this.data.delete(from.id);
+    }
+    if (to) {
+      this.data.set(to.id, to as T);
+      this.index(to);
+    }
+  }
+
+  private index(item: Readonly<T>) {
+    for (const [key, index] of this.indexes) {
+      const ids = index.get(item[key]) ?? new Set();
+      ids.add(item.id);
+      index.set(item[key], ids);
+    }
+  }
+
+  private unindex(item: Readonly<T>) {
+    for (const [key, index] of this.indexes) {
+      const ids = index.get(item[key]);
+      ids?.delete(item.id);
+      if (ids?.size === 0) index.delete(item[key]);
     }
   }
 }
 
 // Usage
-const userRepo = new Repository<User>();
-const activeUsers = userRepo.filterByProperty("isActive", true);
-userRepo.updateProperty(1, "email", "newemail@example.com");
+if (import.meta.filename === process.argv[1]) {
+  const userRepo = new Repository<User>({ indexes: ["email", "isActive"] });
+  const activeUsers = userRepo.filterByProperty("isActive", true);
+  userRepo.updateProperty(1, "email", "newemail@example.com").catch((e) => console.log(e.message));
+
+  // Change feed for cache invalidation / audit logging
+  userRepo.subscribe((change) => console.log("change:", change.type, change.before?.id ?? change.after?.id));
+
+  (async () => {
+    await userRepo.create({ id: 1, name: "Alice", email: "alice@example.com", isActive: true });
+    await userRepo.create({ id: 2, name: "Bob", email: "bob@example.com", isActive: false });
+    await userRepo.create({ id: 3, name: "Cara", email: "cara@example.com", isActive: true });
+    await userRepo.updateProperty(2, "isActive", true);
+
+    console.log(userRepo.findByProperty("email", "bob@example.com")); // O(1) via index
+    console.log(
+      userRepo.find({
+        where: { isActive: true, name: (name) => name !== "Alice" },
+        orderBy: { key: "name", direction: "desc" },
+        limit: 10,
+      })
+    );
+
+    // All-or-nothing writes
+    await userRepo.transaction(async (tx) => {
+      tx.delete(3);
+      tx.update(1, { name: "Alice B." });
+    });
+
+    await userRepo
+      .transaction(async (tx) => {
+        tx.create({ id: 4, name: "Dan", email: "dan@example.com", isActive: true });
+        throw new Error("abort");
+      })
+      .catch(() => console.log("rolled back, id 4 exists:", userRepo.get(4) !== undefined));
+
+    // Persist to disk instead of memory
+    const fileRepo = await Repository.open<User>({ storage: new JsonFileStorage("users.json") });
+    console.log("loaded from users.json:", fileRepo.count());
+  })();
+}
 
 // Example 19: Type-safe form field helper
-interface FormFields {
+export interface FormFields {
   username: string;
   password: string;
   email: string;
   age: number;
 }
 
-type FieldValidator<F extends keyof FormFields> = (
+export type FieldValidator<F extends keyof FormFields> = (
   value: FormFields[F]
 ) => boolean;
 
-const validators: Record<keyof FormFields, FieldValidator<any>> = {
+const validators: { [F in keyof FormFields]: FieldValidator<F> } = {
   username: (value: FormFields["username"]) => value.length > 0,
   password: (value: FormFields["password"]) => value.length >= 8,
   email: (value: FormFields["email"]) => value.includes("@"),
@@ -0,0 +1,305 @@
+/**
+ * Strict JSON
+ * Runtime counterparts to `JsonValue` / `IsValidJson` (conditional-types.ts).
+ * `stringifyJson` refuses anything JSON can't represent instead of silently dropping or
+ * coercing it, `parseJson` validates the result against a schema, and both report failures
+ * by JSON Pointer. Dates and other custom types round-trip through registered codecs.
+ */
+
+import type { IsValidJson, JsonValue } from "./conditional-types.js";
+import type { Issue, Path, Schema } from "./schema.js";
+
+// ===== TYPES =====
+
+// Encodes values of type T as tagged objects: { "$type": name, "value": encode(value) }.
+// Plain objects with their own "$type" key are escaped to "$$type", so they never read as tags.
+type JsonCodec<T> = {
+  name: string;
+  is: (value: unknown) => value is T;
+  encode: (value: T) => unknown;
+  // Receives the encoded value with its own nested codecs already decoded
+  decode: (value: unknown) => T;
+};
+
+// JSON plus any type a codec handles, at any depth
+type JsonEncodable<X> =
+  | JsonValue
+  | X
+  | JsonEncodable<X>[]
+  | { [key: string]: JsonEncodable<X> };
+
+// What a list of codecs of different types is checked against; every JsonCodec<T> fits
+type AnyJsonCodec = {
+  name: string;
+  is: (value: unknown) => boolean;
+  encode: (value: never) => unknown;
+  decode: (value: unknown) => unknown;
+};
+
+type CodecType<C> = C extends JsonCodec<infer T> ? T : never;
+
+type StringifyOptions<C extends readonly AnyJsonCodec[]> = {
+  codecs?: C;
+  indent?: number;
+};
+
+type ParseOptions = { codecs?: readonly AnyJsonCodec[] };
+
+type JsonErrorKind = "syntax" | "unsupported" | "cycle" | "non-finite" | "codec" | "schema";
+
+export type { JsonCodec, AnyJsonCodec, JsonEncodable, CodecType, StringifyOptions, ParseOptions, JsonErrorKind };
+
+// ===== ERRORS =====
+
+// RFC 6901: "~" -> "~0", "/" -> "~1"; the root is ""
+function toPointer(path: Path): string {
+  return path.map((key) => "/" + String(key).replace(/~/g, "~0").replace(/\//g, "~1")).join("");
+}
+
+class JsonError extends Error {
+  constructor(
+    public readonly kind: JsonErrorKind,
+    // JSON Pointer of the offending value; "" for the root or a syntax error
+    public readonly pointer: string,
+    message: string,
+    public readonly issues: Issue[] = []
+  ) {
+    super(`${pointer || "(root)"}: ${message}`);
+    this.name = "JsonError";
+  }
+}
+
+// ===== STRINGIFY =====
+
+// "$type" -> "$$type", "$$type" -> "$$$type", ...; decoding strips one "$" again
+const TYPE_KEY = /^\$+type$/;
+const ESCAPED_TYPE_KEY = /^\$\$+type$/;
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (typeof value !== "object") return typeof value;
+  return value.constructor?.name ?? "object";
+}
+
+function isPlainObject(value: object): boolean {
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+// Checks every value and applies codecs, producing a tree JSON.stringify can't misread
+function encode(value: unknown, path: Path, ancestors: object[], codecs: readonly AnyJsonCodec[]): JsonValue {
+  const codec = codecs.find((c) => c.is(value));
+  if (codec) {
+    let encoded: unknown;
+    try {
+      encoded = codec.encode(value as never);
+    } catch (e) {
+      throw new JsonError("codec", toPointer(path), `codec "${codec.name}" failed: ${e instanceof Error ? e.message : e}`);
+    }
+    return { $type: codec.name, value: encode(encoded, [...path, "value"], ancestors, codecs) };
+  }
+
+  switch (typeof value) {
+    case "string":
+    case "boolean":
+      return value;
+    case "number":
+      if (!Number.isFinite(value)) throw new JsonError("non-finite", toPointer(path), `${value} is not valid JSON`);
+      return value;
+    case "object":
+      break;
+    default:
+      throw new JsonError("unsupported", toPointer(path), `${typeof value} is not valid JSON`);
+  }
+  if (value === null) return null;
+
+  // Shared references are fine; only a reference back to an ancestor is a cycle
+  if (ancestors.includes(value)) throw new JsonError("cycle", toPointer(path), "circular reference");
+  const inner = [...ancestors, value];
+
+  if (Array.isArray(value)) {
+    const items: JsonValue[] = [];
+    for (let i = 0; i < value.length; i++) {
+      // Holes would silently become null
+      if (!(i in value)) throw new JsonError("unsupported", toPointer([...path, i]), "sparse array element");
+      items.push(encode(value[i], [...path, i], inner, codecs));
+    }
+    return items;
+  }
+  if (!isPlainObject(value)) {
+    throw new JsonError("unsupported", toPointer(path), `${describe(value)} is not valid JSON (register a codec)`);
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, child]) => [
+      TYPE_KEY.test(key) ? `$${key}` : key,
+      encode(child, [...path, key], inner, codecs),
+    ])
+  );
+}
+
+// Throws a JsonError instead of dropping `undefined`/functions or writing `null` for NaN.
+// Values handled by one of `codecs` are accepted anywhere in `value`.
+function stringifyJson<const C extends readonly AnyJsonCodec[] = []>(
+  value: JsonEncodable<CodecType<C[number]>>,
+  options: StringifyOptions<C> = {}
+): string {
+  return JSON.stringify(encode(value, [], [], options.codecs ?? []), null, options.indent);
+}
+
+// ===== PARSE =====
+
+// Bottom-up like a JSON.parse reviver: children are decoded before their parent.
+// Only an object of exactly { "$type", "value" } naming a registered codec is a tag.
+function decode(value: unknown, path: Path, codecs: ReadonlyMap<string, AnyJsonCodec>): unknown {
+  if (typeof value !== "object" || value === null) return value;
+  if (Array.isArray(value)) return value.map((item, i) => decode(item, [...path, i], codecs));
+
+  const entries = Object.entries(value);
+  const tag = (value as Record<string, unknown>)["$type"];
+  const codec = entries.length === 2 && typeof tag === "string" && "value" in value ? codecs.get(tag) : undefined;
+  if (!codec) {
+    // fromEntries defines own properties, so a "__proto__" key can't replace the prototype
+    return Object.fromEntries(
+      entries.map(([key, child]) => [ESCAPED_TYPE_KEY.test(key) ? key.slice(1) : key, decode(child, [...path, key], codecs)])
+    );
+  }
+  try {
+    return codec.decode(decode((value as Record<string, unknown>)["value"], [...path, "value"], codecs));
+  } catch (e) {
+    throw new JsonError("codec", toPointer(path), `codec "${codec.name}" failed: ${e instanceof Error ? e.message : e}`);
+  }
+}
+
+function parseJson(text: string, schema?: undefined, options?: ParseOptions): JsonValue;
+function parseJson<T>(text: string, schema: Pick<Schema<T>, "validate">, options?: ParseOptions): T;
+function parseJson<T>(text: string, schema?: Pick<Schema<T>, "validate">, options: ParseOptions = {}): unknown {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new JsonError("syntax", "", e instanceof Error ? e.message : String(e));
+  }
+  const value = decode(raw, [], new Map((options.codecs ?? []).map((c) => [c.name, c])));
+  if (!schema) return value;
+
+  const result = schema.validate(value);
+  if (result.ok) return result.value;
+  const [first, ...rest] = result.error;
+  const more = rest.length ? ` (and ${rest.length} more)` : "";
+  throw new JsonError("schema", toPointer(first?.path ?? []), `${first?.message}${more}`, result.error);
+}
+
+// ===== CODECS =====
+
+const dateCodec: JsonCodec<Date> = {
+  name: "Date",
+  is: (value): value is Date => value instanceof Date,
+  encode: (date) => {
+    if (Number.isNaN(date.getTime())) throw new Error("invalid date");
+    return date.toISOString();
+  },
+  decode: (value) => {
+    const date = new Date(value as string);
+    if (typeof value !== "string" || Number.isNaN(date.getTime())) throw new Error(`invalid date ${JSON.stringify(value)}`);
+    return date;
+  },
+};
+
+// Entries are encoded recursively, so keys and values may use other codecs
+const mapCodec: JsonCodec<Map<unknown, unknown>> = {
+  name: "Map",
+  is: (value): value is Map<unknown, unknown> => value instanceof Map,
+  encode: (map) => [...map],
+  decode: (value) => new Map(value as [unknown, unknown][]),
+};
+
+export { stringifyJson, parseJson, dateCodec, mapCodec, JsonError };
+
+// ===== USAGE EXAMPLE =====
+
+if (import.meta.filename === process.argv[1]) {
+  type Event = { title: string; at: Date; tags: string[] };
+
+  // Hand-written here; any Schema<T> from schema.ts fits the same slot
+  const eventSchema: Pick<Schema<Event>, "validate"> = {
+    validate: (value, path = []) => {
+      const v = value as Partial<Event>;
+      const issues: Issue[] = [];
+      if (typeof v?.title !== "string") issues.push({ path: [...path, "title"], message: "expected string" });
+      if (!(v?.at instanceof Date)) issues.push({ path: [...path, "at"], message: "expected Date" });
+      if (!Array.isArray(v?.tags)) issues.push({ path: [...path, "tags"], message: "expected array" });
+      return issues.length ? { ok: false, error: issues } : { ok: true, value: v as Event };
+    },
+  };
+
+  const codecs = [dateCodec, mapCodec];
+
+  const text = stringifyJson(
+    { title: "Launch", at: new Date("2024-05-01T09:00:00Z"), tags: ["release"] },
+    { codecs }
+  );
+  console.log(text);
+  // {"title":"Launch","at":{"$type":"Date","value":"2024-05-01T09:00:00.000Z"},"tags":["release"]}
+
+  const event = parseJson(text, eventSchema, { codecs });
+  // event: Event
+  console.log(event.at.getUTCFullYear()); // 2024
+
+  const plain = parseJson('{"a": [1, 2]}');
+  // plain: JsonValue
+  console.log(plain);
+
+  const failures: unknown[] = [
+    { user: { name: "Ada", onClick: () => {} } },
+    { totals: [1, 2, NaN] },
+    { id: 10n },
+    { items: [{ note: undefined }] },
+    { "a/b": { when: new Date() } }, // no codec passed below
+  ];
+  const cyclic: Record<string, unknown> = { name: "loop" };
+  cyclic["self"] = cyclic;
+  failures.push(cyclic);
+
+  for (const value of failures) {
+    try {
+      stringifyJson(value as JsonValue);
+    } catch (e) {
+      if (e instanceof JsonError) console.log(e.kind, JSON.stringify(e.pointer));
+    }
+  }
+  // unsupported "/user/onClick"
+  // non-finite "/totals/2"
+  // unsupported "/id"
+  // unsupported "/items/0/note"
+  // unsupported "/a~1b/when"
+  // cycle "/self"
+
+  try {
+    parseJson('{"title": "x", "at": {"$type": "Date", "value": "2024-05-01"}, "tags": "a"}', eventSchema, { codecs });
+  } catch (e) {
+    if (e instanceof JsonError) console.log(e.message); // /tags: expected array
+  }
+
+  // Compile-time checks mirror the runtime ones
+  type FnIsJson = IsValidJson<{ run: () => void }>; // false
+  // stringifyJson({ run: () => {} }); // Error: not assignable to JsonEncodable<never>
+}
+
+// ===== KEY CONCEPTS =====
+
+/*
+ * 1. Strict stringify:
+ *    - functions, undefined, symbols, bigint, NaN/Infinity, sparse arrays,
+ *      cycles and non-plain objects throw instead of being dropped or coerced
+ *    - shared (non-circular) references are allowed
+ *
+ * 2. Every JsonError carries a kind and the JSON Pointer (RFC 6901) of the bad value
+ *
+ * 3. Codecs:
+ *    - encode to { "$type": name, "value": ... } tagged objects
+ *    - a "$type" key in the data itself is escaped as "$$type", so it round-trips
+ *    - decode bottom-up, reviver style, so codecs can nest (a Map of Dates)
+ *
+ * 4. parseJson(text, schema) returns the schema's type; schema issues are
+ *    reported with pointers as well
+ */
@@ -4,6 +4,8 @@
  * by transforming each property in a predictable way
  */
 
+import { Repository } from "./indexed-access-types.js";
+
 // ===== BASIC MAPPED TYPES =====
 
 // Example 1: Make all properties optional
@@ -104,14 +106,14 @@ type NullableUser = Nullable<User>;
 // Result: { id: number | null; name: string | null; email: string | null; }
 
 // Example 9: Create validators object from type
-interface Product {
+export interface Product {
   id: number;
   name: string;
   price: number;
   inStock: boolean;
 }
 
-type Validators<T> = {
+export type Validators<T> = {
   [K in keyof T]: (value: T[K]) => boolean;
 };
 
@@ -123,7 +125,7 @@ const productValidators: Validators<Product> = {
 };
 
 // Example 10: Create a form state type
-type FormState<T> = {
+export type FormState<T> = {
   values: T;
   errors: Partial<Record<keyof T, string>>;
   touched: Partial<Record<keyof T, boolean>>;
@@ -165,7 +167,7 @@ type AsyncFunctionsType = AsyncFunctions<Functions>;
 // }
 
 // Example 13: Deep partial (nested optional)
-type DeepPartial<T> = {
+export type DeepPartial<T> = {
   [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K];
 };
 
@@ -186,17 +188,19 @@ type PartialUserWithAddress = DeepPartial<UserWithAddress>;
 
 // ===== USAGE EXAMPLE =====
 
+// Storage, indexes and change events come from the Repository in indexed-access-types.ts
 class UserRepository {
-  create(data: Partial<User>): User {
-    // Implementation
-    return {} as User;
+  private users = new Repository<User>({ indexes: ["email"] });
+
+  create(data: User): Promise<Readonly<User>> {
+    return this.users.create(data);
   }
 
-  update(id: number, data: Partial<User>): User {
-    // Implementation
-    return {} as User;
+  update(id: number, data: Partial<Omit<User, "id">>): Promise<Readonly<User>> {
+    return this.users.update(id, data);
   }
 
+  // Shallow; deepFreeze in deep.ts freezes nested objects too
   makeReadonly(user: User): Readonly<User> {
     return Object.freeze(user);
   }
@@ -0,0 +1,278 @@
+/**
+ * Typed Object Paths
+ * Dotted-path access in the spirit of `UserWithAddress["address"]["city"]`
+ * (indexed-access-types.ts): `get(user, "address.city")` is checked against the object
+ * type and returns `string`. Includes `set` / `has` / `del`, numeric array segments,
+ * copy-on-write `setIn` / `delIn`, and a `Paths<T>` union for form field names.
+ */
+
+import type { BuildPath, PathSegment } from "./template-literal-types.js";
+import type { FormFields } from "./indexed-access-types.js";
+
+// ===== TYPES =====
+
+// Values that are treated as a whole rather than walked into
+type Leaf = string | number | boolean | bigint | symbol | null | undefined | Date | RegExp | Function | Map<unknown, unknown> | Set<unknown>;
+
+type Key = string | number;
+
+// Every dotted path into T, e.g. "id" | "address" | "address.city" | "tags.${number}".
+// Recursion stops at depth D to keep cyclic or very deep types manageable.
+type Paths<T, D extends unknown[] = []> = D["length"] extends 6
+  ? never
+  : T extends Leaf
+    ? never
+    : T extends readonly (infer E)[]
+      ? `${number}` | `${number}.${Paths<E, [...D, 0]>}`
+      : {
+          [K in keyof T & Key]: `${K}` | `${K}.${Paths<NonNullable<T[K]>, [...D, 0]>}`;
+        }[keyof T & Key];
+
+// Paths that can be removed without breaking T: optional properties and array elements
+type OptionalPaths<T, D extends unknown[] = []> = D["length"] extends 6
+  ? never
+  : T extends Leaf
+    ? never
+    : T extends readonly (infer E)[]
+      ? `${number}` | `${number}.${OptionalPaths<E, [...D, 0]>}`
+      : {
+          [K in keyof T & Key]-?:
+            | ({} extends Pick<T, K> ? `${K}` : never)
+            | `${K}.${OptionalPaths<NonNullable<T[K]>, [...D, 0]>}`;
+        }[keyof T & Key];
+
+// Optional properties carry their `undefined` on to everything below them
+type Step<T, K extends string> = T extends null | undefined
+  ? undefined
+  : T extends readonly (infer E)[]
+    ? K extends `${number}` ? E : never
+    : K extends keyof T ? T[K] : never;
+
+// The declared type at a path, as accepted by `set`
+type PathValue<T, P extends string> = P extends `${infer Head}.${infer Rest}`
+  ? PathValue<Step<T, Head>, Rest>
+  : Step<T, P>;
+
+// Paths that go through an array index may point past the end
+type IndexesArray<P extends string> = P extends `${number}` | `${number}.${string}` | `${string}.${number}` | `${string}.${number}.${string}`
+  ? true
+  : false;
+
+// What `get` returns: the declared type, plus `undefined` if an index might be out of range
+type PathResult<T, P extends string> = PathValue<T, P> | (IndexesArray<P> extends true ? undefined : never);
+
+// ["address", "city"] -> "address.city", built on BuildPath from template-literal-types.ts
+type SlashesToDots<S extends string> = S extends `${infer A}/${infer B}` ? `${A}.${SlashesToDots<B>}` : S;
+type JoinPath<S extends PathSegment[]> = BuildPath<S> extends `/${infer P}` ? SlashesToDots<P> : "";
+
+export type { Paths, OptionalPaths, PathValue, PathResult, JoinPath };
+
+// ===== PARSING =====
+
+const FORBIDDEN = new Set(["__proto__", "constructor", "prototype"]);
+
+function parsePath(path: string): string[] {
+  const segments = path.split(".");
+  for (const segment of segments) {
+    if (segment === "") throw new Error(`Empty segment in path "${path}"`);
+    if (FORBIDDEN.has(segment)) throw new Error(`Forbidden segment "${segment}" in path "${path}"`);
+  }
+  return segments;
+}
+
+const isIndex = (segment: string) => /^(0|[1-9]\d*)$/.test(segment);
+
+type Container = Record<string, unknown> | unknown[];
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === "object" && value !== null;
+}
+
+// Own properties only, so "toString" or "length"-style lookups never reach the prototype
+function child(container: unknown, segment: string): unknown {
+  return isContainer(container) && Object.hasOwn(container, segment)
+    ? (container as Record<string, unknown>)[segment]
+    : undefined;
+}
+
+// ===== MUTABLE ACCESS =====
+
+function get<T, P extends Paths<T>>(obj: T, path: P): PathResult<T, P> {
+  let current: unknown = obj;
+  for (const segment of parsePath(path)) current = child(current, segment);
+  return current as PathResult<T, P>;
+}
+
+function has<T>(obj: T, path: Paths<T>): boolean {
+  let current: unknown = obj;
+  for (const segment of parsePath(path)) {
+    if (!isContainer(current) || !Object.hasOwn(current, segment)) return false;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return true;
+}
+
+// A missing parent would have to be invented with only this one property, which is rarely a
+// valid value of its type (`previous: { city }` is no Address), so it is an error instead
+function missingParent(path: string, segments: string[], i: number): Error {
+  const parent = segments.slice(0, i + 1).join(".");
+  return new Error(`Cannot set "${path}": "${parent}" is missing; set "${parent}" to a complete value first`);
+}
+
+// Every container above the last segment must already exist
+function set<T, P extends Paths<T>>(obj: T, path: P, value: PathValue<T, P>): T {
+  const segments = parsePath(path);
+  let current: unknown = obj;
+  segments.forEach((segment, i) => {
+    if (!isContainer(current)) throw missingParent(path, segments, i - 1);
+    if (i === segments.length - 1) (current as Record<string, unknown>)[segment] = value;
+    else current = child(current, segment);
+  });
+  return obj;
+}
+
+// Only optional properties and array elements can be deleted. Array elements are spliced
+// out (later indexes shift); returns whether anything was removed.
+function del<T>(obj: T, path: OptionalPaths<T>): boolean {
+  const segments = parsePath(path);
+  const last = segments.pop()!;
+  let parent: unknown = obj;
+  for (const segment of segments) parent = child(parent, segment);
+  if (!isContainer(parent) || !Object.hasOwn(parent, last)) return false;
+  if (Array.isArray(parent) && isIndex(last)) parent.splice(Number(last), 1);
+  else delete (parent as Record<string, unknown>)[last];
+  return true;
+}
+
+// ===== IMMUTABLE ACCESS =====
+
+// Keeps the prototype, so class instances on the path stay instances of their class
+function shallowCopy(value: Container): Container {
+  if (Array.isArray(value)) return value.slice();
+  return Object.assign(Object.create(Object.getPrototypeOf(value)), value);
+}
+
+// Copy-on-write: only containers along the path are copied, everything else is shared.
+// Like set(), every container above the last segment must already exist.
+function setIn<T, P extends Paths<T>>(obj: T, path: P, value: PathValue<T, P>): T {
+  const segments = parsePath(path);
+  const update = (current: unknown, i: number): unknown => {
+    const segment = segments[i]!;
+    if (!isContainer(current)) throw missingParent(path, segments, i - 1);
+    const copy = shallowCopy(current) as Record<string, unknown>;
+    copy[segment] = i === segments.length - 1 ? value : update(child(current, segment), i + 1);
+    return copy;
+  };
+  return update(obj, 0) as T;
+}
+
+// Returns `obj` itself when there is nothing to delete
+function delIn<T>(obj: T, path: OptionalPaths<T>): T {
+  if (!has(obj, path as Paths<T>)) return obj;
+  const segments = parsePath(path);
+  const remove = (current: unknown, i: number): unknown => {
+    const segment = segments[i]!;
+    const copy = shallowCopy(current as Container);
+    if (i < segments.length - 1) {
+      (copy as Record<string, unknown>)[segment] = remove(child(current, segment), i + 1);
+    } else if (Array.isArray(copy)) {
+      copy.splice(Number(segment), 1);
+    } else {
+      delete copy[segment];
+    }
+    return copy;
+  };
+  return remove(obj, 0) as T;
+}
+
+export { get, has, set, del, setIn, delIn };
+
+// ===== USAGE EXAMPLE =====
+
+if (import.meta.filename === process.argv[1]) {
+  interface Address {
+    street: string;
+    city: string;
+    zipCode: string;
+  }
+
+  interface UserWithAddress {
+    id: number;
+    name: string;
+    address: Address;
+    previous?: Address;
+    tags: string[];
+    orders: { id: number; total: number }[];
+  }
+
+  const user: UserWithAddress = {
+    id: 1,
+    name: "Ada",
+    address: { street: "1 Main St", city: "London", zipCode: "N1" },
+    tags: ["admin"],
+    orders: [{ id: 10, total: 25 }],
+  };
+
+  const city = get(user, "address.city");
+  // city: string
+  const oldCity = get(user, "previous.city");
+  // oldCity: string | undefined
+  const total = get(user, "orders.0.total");
+  // total: number | undefined
+  console.log(city, oldCity, total); // London undefined 25
+  // get(user, "address.country"); // Error: not a path of UserWithAddress
+
+  console.log(has(user, "previous"), has(user, "orders.0.id"), has(user, "orders.3")); // false true false
+
+  try {
+    set(user, "previous.city", "Paris");
+  } catch (e) {
+    console.log((e as Error).message); // Cannot set "previous.city": "previous" is missing; set "previous" to a complete value first
+  }
+  set(user, "previous", { street: "2 Rue de Rivoli", city: "Paris", zipCode: "75001" });
+  set(user, "tags.1", "beta");
+  // set(user, "address.zipCode", 12345); // Error: expected string
+  console.log(user.previous?.city, user.tags); // Paris [ 'admin', 'beta' ]
+
+  const moved = setIn(user, "address.city", "Berlin");
+  console.log(moved.address.city, user.address.city, moved.orders === user.orders); // Berlin London true
+
+  const trimmed = delIn(user, "orders.0");
+  console.log(trimmed.orders.length, user.orders.length); // 0 1
+  console.log(del(user, "previous"), user.previous); // true undefined
+  // del(user, "address"); // Error: address is required
+
+  // Paths<T> as form field names, e.g. <input name="address.zipCode">
+  type UserField = Paths<UserWithAddress>;
+  const fields: UserField[] = ["name", "address.zipCode", "orders.0.total"];
+  const formField: Paths<FormFields> = "email";
+
+  // Segment tuples join into the same dotted paths
+  type CityPath = JoinPath<["address", "city"]>; // "address.city"
+  const cityPath: CityPath = "address.city";
+  console.log(fields.map((field) => get(user, field)), get(user, cityPath), formField);
+
+  try {
+    set({} as Record<string, unknown>, "__proto__.polluted" as never, true as never);
+  } catch (e) {
+    console.log((e as Error).message); // Forbidden segment "__proto__" in path "__proto__.polluted"
+  }
+}
+
+// ===== KEY CONCEPTS =====
+
+/*
+ * 1. Paths<T> lists every dotted path; numeric segments index into arrays.
+ *    Recursion is depth-limited and stops at leaves such as Date and Map
+ *
+ * 2. PathValue<T, P> walks the path one segment at a time:
+ *    - optional properties add `undefined` to everything below them
+ *    - get() also adds `undefined` when the path crosses an array index
+ *
+ * 3. set / del mutate; setIn / delIn copy only the containers on the path
+ *    - parents must exist: a missing one isn't invented from a single property
+ *    - only optional properties and array elements can be deleted
+ *    - copies keep their prototype
+ *
+ * 4. "__proto__", "constructor" and "prototype" segments are rejected
+ */
@@ -0,0 +1,296 @@
+/**
+ * Query String Codec
+ * Runtime `parseQuery` / `stringifyQuery` that build on `ParseQuery` (template-literal-types.ts).
+ * Handles many parameters, repeated keys (arrays), bracket nesting (`a[b]=1`, `a[]=1`) and
+ * percent-decoding, and can coerce values to a declared schema. Literal query strings are
+ * parsed at the type level too: `parseQuery("name=John&age=30")` has type
+ * `{ name: "John"; age: "30" }`.
+ */
+
+import type { ParseQuery } from "./template-literal-types.js";
+
+// ===== TYPE-LEVEL PARSING =====
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+// "flag" (no "=") is a key with an empty value
+type Pair<P extends string> = P extends `${string}=${string}` ? ParseQuery<P> : { key: P; value: "" };
+
+type Pairs<S extends string> = S extends "" ? [] : S extends `${infer P}&${infer Rest}` ? [Pair<P>, ...Pairs<Rest>] : [Pair<S>];
+
+// "a[b][]" -> ["a", "b", ""]
+type Brackets<S extends string> = S extends `[${infer Inner}]${infer Rest}` ? [Inner, ...Brackets<Rest>] : [];
+type KeyPath<K extends string> = K extends `${infer Head}[${infer Rest}` ? [Head, ...Brackets<`[${Rest}`>] : [K];
+
+// A repeated key turns its value into an array
+type Append<Existing, V> = Existing extends readonly unknown[] ? [...Existing, V] : [Existing, V];
+
+type SetPath<O, Path extends string[], V> = Path extends [infer H extends string, ...infer R extends string[]]
+  ? R extends []
+    ? Simplify<Omit<O, H> & { [P in H]: H extends keyof O ? Append<O[H], V> : V }>
+    : R extends [""]
+      ? Simplify<Omit<O, H> & { [P in H]: H extends keyof O ? Append<O[H], V> : [V] }>
+      : Simplify<Omit<O, H> & { [P in H]: SetPath<H extends keyof O ? O[H] : {}, R, V> }>
+  : O;
+
+type Fold<Ps, Acc = {}> = Ps extends [{ key: infer K extends string; value: infer V }, ...infer Rest]
+  ? Fold<Rest, SetPath<Acc, KeyPath<K>, V>>
+  : Acc;
+
+type QueryValue = string | QueryValue[] | { [key: string]: QueryValue };
+type QueryObject = { [key: string]: QueryValue };
+
+// Literal strings are parsed precisely (without percent-decoding); plain `string` gives QueryObject
+type ParsedQuery<S extends string> = string extends S
+  ? QueryObject
+  : Fold<Pairs<S extends `?${infer Rest}` ? Rest : S>>;
+
+// ===== SCHEMA TYPES =====
+
+type FieldSpec =
+  | "string"
+  | "number"
+  | "boolean"
+  | "string[]"
+  | "number[]"
+  // Allowed literal values, e.g. ["asc", "desc"]
+  | readonly [string, ...string[]]
+  | QuerySchema;
+
+type QuerySchema = { [key: string]: FieldSpec };
+
+type FieldType<F> = F extends "string"
+  ? string
+  : F extends "number"
+    ? number
+    : F extends "boolean"
+      ? boolean
+      : F extends "string[]"
+        ? string[]
+        : F extends "number[]"
+          ? number[]
+          : F extends readonly string[]
+            ? F[number]
+            : F extends QuerySchema
+              ? SchemaType<F>
+              : never;
+
+// Every parameter may be absent from a query string, so all keys are optional
+type SchemaType<S extends QuerySchema> = Simplify<{ -readonly [K in keyof S]?: FieldType<S[K]> }>;
+
+type StringifyInput = { [key: string]: StringifyValue };
+type StringifyValue = string | number | boolean | null | undefined | StringifyValue[] | StringifyInput;
+
+type StringifyOptions = {
+  // "repeat": tag=a&tag=b, "brackets": tag[]=a&tag[]=b
+  arrayFormat?: "repeat" | "brackets";
+};
+
+export type { ParsedQuery, QueryValue, QueryObject, FieldSpec, QuerySchema, SchemaType, StringifyOptions };
+
+class QueryError extends Error {
+  constructor(public readonly key: string, message: string) {
+    super(`Query parameter "${key}": ${message}`);
+    this.name = "QueryError";
+  }
+}
+
+// ===== PARSE =====
+
+const FORBIDDEN = new Set(["__proto__", "constructor", "prototype"]);
+const MAX_DEPTH = 5;
+
+// "+" means space in form encoding; malformed escapes are kept as written
+function decode(text: string): string {
+  const spaced = text.replace(/\+/g, " ");
+  try {
+    return decodeURIComponent(spaced);
+  } catch {
+    return spaced;
+  }
+}
+
+function splitKey(key: string): string[] {
+  const match = /^([^[]*)((?:\[[^\]]*\])*)$/.exec(key);
+  if (!match || !match[2]) return [key];
+  const path = [match[1]!, ...[...match[2].matchAll(/\[([^\]]*)\]/g)].map((m) => m[1]!)];
+  // Anything deeper than MAX_DEPTH stays part of the last key
+  return path.length > MAX_DEPTH + 1 ? [...path.slice(0, MAX_DEPTH), path.slice(MAX_DEPTH).join("][")] : path;
+}
+
+function assign(target: QueryObject, path: string[], value: string) {
+  const [head, ...rest] = path;
+  if (head === undefined || FORBIDDEN.has(head)) return;
+  const existing = Object.hasOwn(target, head) ? target[head] : undefined;
+
+  if (rest.length === 0) {
+    target[head] = existing === undefined ? value : Array.isArray(existing) ? [...existing, value] : [existing as string, value];
+  } else if (rest.length === 1 && rest[0] === "") {
+    target[head] = Array.isArray(existing) ? [...existing, value] : existing === undefined ? [value] : [existing, value];
+  } else {
+    // A plain value at the same key is replaced by the nested object
+    const child = typeof existing === "object" && !Array.isArray(existing) ? existing : {};
+    assign(child, rest, value);
+    target[head] = child;
+  }
+}
+
+function parseRaw(input: string): QueryObject {
+  const result: QueryObject = {};
+  const text = input.startsWith("?") ? input.slice(1) : input;
+  for (const part of text.split("&")) {
+    if (!part) continue;
+    const eq = part.indexOf("=");
+    // Brackets are split on before decoding, so an encoded "%5B" stays part of the key name
+    const path = splitKey(eq === -1 ? part : part.slice(0, eq)).map(decode);
+    const value = eq === -1 ? "" : decode(part.slice(eq + 1));
+    assign(result, path, value);
+  }
+  return result;
+}
+
+function coerce(key: string, spec: FieldSpec, raw: QueryValue): unknown {
+  const last = (value: QueryValue) => (Array.isArray(value) ? value[value.length - 1] : value);
+  const list = (value: QueryValue) => (Array.isArray(value) ? value : [value]);
+  const toNumber = (value: QueryValue | undefined) => {
+    const n = typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+    if (!Number.isFinite(n)) throw new QueryError(key, `expected a number, got ${JSON.stringify(value)}`);
+    return n;
+  };
+
+  if (Array.isArray(spec)) {
+    const value = last(raw);
+    if (typeof value !== "string" || !spec.includes(value)) {
+      throw new QueryError(key, `expected one of ${spec.join(", ")}, got ${JSON.stringify(value)}`);
+    }
+    return value;
+  }
+  if (typeof spec === "object") {
+    if (typeof raw !== "object" || Array.isArray(raw)) throw new QueryError(key, "expected nested parameters");
+    return coerceSchema(spec as QuerySchema, raw, `${key}.`);
+  }
+  switch (spec) {
+    case "string": {
+      const value = last(raw);
+      if (typeof value !== "string") throw new QueryError(key, "expected a single value");
+      return value;
+    }
+    case "number":
+      return toNumber(last(raw));
+    case "boolean": {
+      // A bare "?flag" counts as true
+      const value = last(raw);
+      if (value === "" || value === "true" || value === "1") return true;
+      if (value === "false" || value === "0") return false;
+      throw new QueryError(key, `expected a boolean, got ${JSON.stringify(value)}`);
+    }
+    case "string[]":
+      return list(raw).map((value) => {
+        if (typeof value !== "string") throw new QueryError(key, "expected a list of values");
+        return value;
+      });
+    case "number[]":
+      return list(raw).map(toNumber);
+  }
+}
+
+// Unknown parameters are dropped; missing ones are left out
+function coerceSchema(schema: QuerySchema, raw: QueryObject, prefix = ""): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [key, spec] of Object.entries(schema)) {
+    if (Object.hasOwn(raw, key)) result[key] = coerce(prefix + key, spec, raw[key]!);
+  }
+  return result;
+}
+
+function parseQuery<const S extends string>(input: S): ParsedQuery<S>;
+function parseQuery<const Schema extends QuerySchema>(input: string, schema: Schema): SchemaType<Schema>;
+function parseQuery(input: string, schema?: QuerySchema): unknown {
+  const raw = parseRaw(input);
+  return schema ? coerceSchema(schema, raw) : raw;
+}
+
+// ===== STRINGIFY =====
+
+function stringifyQuery(input: StringifyInput, options: StringifyOptions = {}): string {
+  const parts: string[] = [];
+  const push = (key: string, value: string | number | boolean | null) =>
+    parts.push(value === null ? key : `${key}=${encodeURIComponent(String(value))}`);
+
+  const walk = (key: string, value: StringifyValue) => {
+    if (value === undefined) return;
+    if (Array.isArray(value)) {
+      const itemKey = options.arrayFormat === "brackets" ? `${key}[]` : key;
+      for (const item of value) {
+        if (typeof item === "object" && item !== null) throw new QueryError(key, "arrays may only contain plain values");
+        if (item !== undefined) push(itemKey, item);
+      }
+    } else if (typeof value === "object" && value !== null) {
+      for (const [child, childValue] of Object.entries(value)) walk(`${key}[${encodeURIComponent(child)}]`, childValue);
+    } else {
+      push(key, value);
+    }
+  };
+
+  for (const [key, value] of Object.entries(input)) walk(encodeURIComponent(key), value);
+  return parts.join("&");
+}
+
+export { parseQuery, stringifyQuery, QueryError };
+
+// ===== USAGE EXAMPLE =====
+
+if (import.meta.filename === process.argv[1]) {
+  const simple = parseQuery("name=John&age=30");
+  // simple: { name: "John"; age: "30" }
+  console.log(simple.name, simple.age); // John 30
+
+  const nested = parseQuery("?user[name]=Ada&user[langs][]=en&user[langs][]=fr&tag=a&tag=b&debug");
+  // nested: { user: { name: "Ada"; langs: ["en", "fr"] }; tag: ["a", "b"]; debug: "" }
+  console.log(nested.user.langs, nested.tag, nested.debug === ""); // [ 'en', 'fr' ] [ 'a', 'b' ] true
+
+  // Runtime strings decode percent escapes and "+"
+  const search: string = "q=caf%C3%A9+au+lait&page=2&sort=desc&ids=1&ids=5&filter[active]=true";
+  console.log(parseQuery(search));
+  // { q: 'café au lait', page: '2', sort: 'desc', ids: [ '1', '5' ], filter: { active: 'true' } }
+
+  const typed = parseQuery(search, {
+    q: "string",
+    page: "number",
+    sort: ["asc", "desc"],
+    ids: "number[]",
+    filter: { active: "boolean" },
+  });
+  // typed: { q?: string; page?: number; sort?: "asc" | "desc"; ids?: number[]; filter?: { active?: boolean } }
+  console.log(typed); // { q: 'café au lait', page: 2, sort: 'desc', ids: [ 1, 5 ], filter: { active: true } }
+
+  try {
+    parseQuery("page=two", { page: "number" });
+  } catch (e) {
+    console.log((e as Error).message); // Query parameter "page": expected a number, got "two"
+  }
+
+  console.log(parseQuery("__proto__[polluted]=yes"), ({} as Record<string, unknown>)["polluted"]); // {} undefined
+
+  console.log(stringifyQuery({ q: "café au lait", page: 2, ids: [1, 5], filter: { active: true }, skip: undefined }));
+  // q=caf%C3%A9%20au%20lait&page=2&ids=1&ids=5&filter[active]=true
+  console.log(stringifyQuery({ tag: ["a", "b"] }, { arrayFormat: "brackets" })); // tag[]=a&tag[]=b
+}
+
+// ===== KEY CONCEPTS =====
+
+/*
+ * 1. Type-level parsing builds on ParseQuery:
+ *    - split on "&", parse each pair, fold into an object
+ *    - repeated keys and "key[]" become tuples, "a[b]" nests
+ *
+ * 2. Runtime parsing:
+ *    - percent-decoding with "+" as space; malformed escapes are kept
+ *    - nesting is capped at five levels; "__proto__"-style keys are dropped
+ *
+ * 3. Schema coercion turns strings into numbers, booleans, lists, enums and
+ *    nested objects, throwing QueryError with the parameter name on bad input
+ *
+ * 4. stringifyQuery is the inverse: nested objects use brackets, arrays repeat
+ *    the key (or use "key[]")
+ */
@@ -0,0 +1,203 @@
+/**
+ * Result<T, E> toolkit
+ * Generalizes the `Result` / `wrap` example from generics.ts into a typed error-handling
+ * module: constructors, combinators and adapters for promises, throwing code and the
+ * `ApiResponse` success/error union from conditional-types.ts.
+ */
+
+import type { ApiResponse, SuccessType } from "./conditional-types.js";
+
+// ===== CORE TYPES =====
+
+type Ok<T> = { ok: true; value: T };
+type Err<E> = { ok: false; error: E };
+
+// `E` defaults to `string`, so `Result<T>` keeps the shape used in generics.ts
+type Result<T, E = string> = Ok<T> | Err<E>;
+
+type OkType<R> = R extends Ok<infer T> ? T : never;
+type ErrType<R> = R extends Err<infer E> ? E : never;
+
+export type { Ok, Err, Result, OkType, ErrType };
+
+// ===== CONSTRUCTORS =====
+
+function ok<T>(value: T): Ok<T> {
+  return { ok: true, value };
+}
+
+function err<E>(error: E): Err<E> {
+  return { ok: false, error };
+}
+
+// ===== COMBINATORS =====
+
+function map<T, E, U>(result: Result<T, E>, fn: (value: T) => U): Result<U, E> {
+  return result.ok ? ok(fn(result.value)) : result;
+}
+
+function mapErr<T, E, F>(result: Result<T, E>, fn: (error: E) => F): Result<T, F> {
+  return result.ok ? result : err(fn(result.error));
+}
+
+// Chains a step that can itself fail; the error types accumulate as a union
+function andThen<T, E, U, F>(
+  result: Result<T, E>,
+  fn: (value: T) => Result<U, F>
+): Result<U, E | F> {
+  return result.ok ? fn(result.value) : result;
+}
+
+function unwrapOr<T, E, D>(result: Result<T, E>, fallback: D): T | D {
+  return result.ok ? result.value : fallback;
+}
+
+function match<T, E, R>(
+  result: Result<T, E>,
+  handlers: { ok: (value: T) => R; err: (error: E) => R }
+): R {
+  return result.ok ? handlers.ok(result.value) : handlers.err(result.error);
+}
+
+// ===== ADAPTERS =====
+
+// Without `mapError` the caught value is passed through as `unknown`
+function fromThrowable<T, E = unknown>(
+  fn: () => T,
+  mapError: (thrown: unknown) => E = (thrown) => thrown as E
+): Result<T, E> {
+  try {
+    return ok(fn());
+  } catch (thrown) {
+    return err(mapError(thrown));
+  }
+}
+
+async function fromPromise<T, E = unknown>(
+  promise: PromiseLike<T>,
+  mapError: (rejection: unknown) => E = (rejection) => rejection as E
+): Promise<Result<T, E>> {
+  try {
+    return ok(await promise);
+  } catch (rejection) {
+    return err(mapError(rejection));
+  }
+}
+
+function toApiResponse<T>(result: Result<T, string>): ApiResponse<T> {
+  return result.ok
+    ? { status: "success", data: result.value }
+    : { status: "error", error: result.error };
+}
+
+function fromApiResponse<T>(response: ApiResponse<T>): Result<T, string> {
+  return response.status === "success" ? ok(response.data) : err(response.error);
+}
+
+// ===== TUPLE COMBINATORS =====
+
+// Succeeds with every value (per-element types preserved) or fails with the first error
+function all<const R extends readonly Result<unknown, unknown>[]>(
+  results: R
+): Result<{ -readonly [K in keyof R]: OkType<R[K]> }, ErrType<R[number]>> {
+  const values: unknown[] = [];
+  for (const result of results) {
+    if (!result.ok) return result as Err<ErrType<R[number]>>;
+    values.push(result.value);
+  }
+  return ok(values as { -readonly [K in keyof R]: OkType<R[K]> });
+}
+
+// Succeeds with the first value or fails with every error (per-element types preserved)
+function any<const R extends readonly Result<unknown, unknown>[]>(
+  results: R
+): Result<OkType<R[number]>, { -readonly [K in keyof R]: ErrType<R[K]> }> {
+  const errors: unknown[] = [];
+  for (const result of results) {
+    if (result.ok) return result as Ok<OkType<R[number]>>;
+    errors.push(result.error);
+  }
+  return err(errors as { -readonly [K in keyof R]: ErrType<R[K]> });
+}
+
+export { ok, err, map, mapErr, andThen, unwrapOr, match, fromThrowable, fromPromise, toApiResponse, fromApiResponse, all, any };
+
+// ===== USAGE EXAMPLES =====
+
+if (import.meta.filename === process.argv[1]) {
+  // Example 1: Generic error types
+  type ParseError = { kind: "parse"; input: string };
+
+  function parseAge(input: string): Result<number, ParseError> {
+    const n = Number(input);
+    return Number.isInteger(n) && n >= 0 ? ok(n) : err({ kind: "parse", input });
+  }
+
+  const doubled = map(parseAge("21"), (age) => age * 2);
+  // Result: Result<number, ParseError>
+
+  const message = match(parseAge("abc"), {
+    ok: (age) => `age ${age}`,
+    err: (e) => `could not parse "${e.input}"`,
+  });
+  console.log(doubled, message);
+
+  // Example 2: Chaining fallible steps
+  const adult = andThen(parseAge("17"), (age) =>
+    age >= 18 ? ok(age) : err("underage" as const)
+  );
+  // Result: Result<number, ParseError | "underage">
+
+  console.log(unwrapOr(adult, 0));
+  console.log(mapErr(adult, (e) => (typeof e === "string" ? e : e.kind)));
+
+  // Example 3: Wrapping throwing and async code
+  const parsed = fromThrowable(
+    () => JSON.parse("{ not json") as unknown,
+    (e) => (e instanceof Error ? e.message : String(e))
+  );
+  console.log(parsed);
+
+  fromPromise(Promise.reject(new Error("offline"))).then((r) => console.log(r));
+
+  // Example 4: Tuple combinators keep per-element types
+  const combined = all([ok(1), ok("two"), parseAge("3")]);
+  // Result: Result<[number, string, number], ParseError>
+
+  const firstOk = any([err("a" as const), ok(42)]);
+  // Result: Result<number, ["a", never]>
+  console.log(combined, firstOk);
+
+  // Example 5: Interop with ApiResponse from conditional-types.ts
+  interface User {
+    id: number;
+    name: string;
+  }
+
+  const response = toApiResponse<User>(ok({ id: 1, name: "Alice" }));
+  type ExtractedUser = SuccessType<typeof response>;
+  // Result: User
+
+  console.log(fromApiResponse(response));
+}
+
+// ===== KEY CONCEPTS =====
+
+/*
+ * 1. Result<T, E> is a discriminated union on `ok`
+ *    - Narrowing with `if (r.ok)` exposes `value` or `error`
+ *    - E defaults to string to stay compatible with the generics.ts example
+ *
+ * 2. Combinators never throw:
+ *    - map / mapErr transform one side and pass the other through
+ *    - andThen chains steps and unions their error types
+ *    - match folds both sides into a single value
+ *
+ * 3. Adapters bring exceptions into the type system:
+ *    - fromThrowable for synchronous code, fromPromise for async code
+ *    - toApiResponse / fromApiResponse bridge to ApiResponse<T>
+ *
+ * 4. Tuple combinators use mapped tuple types:
+ *    - all: every value or the first error
+ *    - any: the first value or every error
+ */
@@ -0,0 +1,297 @@
+/**
+ * Typed Router
+ * Registers handlers for `Route`-style patterns (template-literal-types.ts) and hands them
+ * a params object typed by `ExtractParams`. Matching uses a radix tree with fixed
+ * precedence, and misses are reported as deterministic 404 / 405 results.
+ */
+
+import type { ExtractParams, HttpMethod } from "./template-literal-types.js";
+
+// ===== TYPES =====
+
+type Method = HttpMethod | "PATCH" | "HEAD" | "OPTIONS";
+
+type RouteRequest<P extends string> = {
+  method: Method;
+  path: string;
+  pattern: P;
+  params: ExtractParams<P>;
+  query: URLSearchParams;
+};
+
+type RouteHandler<P extends string, R> = (req: RouteRequest<P>) => R;
+
+type MatchResult<R> =
+  | { status: 200; pattern: string; params: Record<string, string>; handler: RouteHandler<string, R> }
+  | { status: 404 }
+  | { status: 405; allow: Method[] };
+
+class RouteError extends Error {
+  constructor(
+    public readonly status: 404 | 405,
+    public readonly allow: Method[] = []
+  ) {
+    super(status === 404 ? "Not Found" : `Method Not Allowed (allow: ${allow.join(", ")})`);
+    this.name = "RouteError";
+  }
+}
+
+export type { Method, RouteRequest, RouteHandler, MatchResult };
+
+// ===== RADIX TREE =====
+
+type Part = { kind: "static"; text: string } | { kind: "param"; name: string } | { kind: "wildcard" };
+
+type Route<R> = { pattern: string; handler: RouteHandler<string, R> };
+
+// Static edges are compressed character runs; params and the wildcard hang off separately
+class RadixNode<R> {
+  statics = new Map<string, RadixNode<R>>();
+  param?: { name: string; node: RadixNode<R> };
+  wildcard?: RadixNode<R>;
+  routes = new Map<Method, Route<R>>();
+
+  constructor(public prefix: string) {}
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  return i;
+}
+
+function insertStatic<R>(node: RadixNode<R>, text: string): RadixNode<R> {
+  if (text === "") return node;
+  const child = node.statics.get(text[0]!);
+  if (!child) {
+    const leaf = new RadixNode<R>(text);
+    node.statics.set(text[0]!, leaf);
+    return leaf;
+  }
+  const common = commonPrefixLength(child.prefix, text);
+  if (common < child.prefix.length) {
+    // Split the edge: `child` keeps the shared prefix, the remainder moves down a level
+    const rest = new RadixNode<R>(child.prefix.slice(common));
+    rest.statics = child.statics;
+    rest.routes = child.routes;
+    if (child.param) rest.param = child.param;
+    if (child.wildcard) rest.wildcard = child.wildcard;
+    child.prefix = child.prefix.slice(0, common);
+    child.statics = new Map([[rest.prefix[0]!, rest]]);
+    child.routes = new Map();
+    delete child.param;
+    delete child.wildcard;
+  }
+  return insertStatic(child, text.slice(common));
+}
+
+function parsePattern(pattern: string): Part[] {
+  const parts: Part[] = [];
+  let text = "";
+  const segments = pattern.split("/");
+  segments.forEach((segment, i) => {
+    if (i > 0) text += "/";
+    if (segment.startsWith(":")) {
+      if (text) parts.push({ kind: "static", text });
+      parts.push({ kind: "param", name: segment.slice(1) });
+      text = "";
+    } else if (segment === "*") {
+      if (i !== segments.length - 1) throw new Error(`"*" must be the last segment: ${pattern}`);
+      if (text) parts.push({ kind: "static", text });
+      parts.push({ kind: "wildcard" });
+      text = "";
+    } else {
+      text += segment;
+    }
+  });
+  if (text) parts.push({ kind: "static", text });
+  return parts;
+}
+
+// "/users/:id?" registers both "/users/:id" and "/users"
+function expandOptional(pattern: string): string[] {
+  const segments = pattern.split("/");
+  const optional = segments.findIndex((s) => s.startsWith(":") && s.endsWith("?"));
+  if (optional === -1) return [pattern];
+  const withParam = [...segments];
+  withParam[optional] = segments[optional]!.slice(0, -1);
+  const without = segments.filter((_, i) => i !== optional);
+  return [...expandOptional(withParam.join("/")), ...expandOptional(without.join("/") || "/")];
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// Precedence at every position: static text, then a param, then the wildcard.
+// Backtracks when a more specific branch dead-ends further down.
+function matchNode<R>(
+  node: RadixNode<R>,
+  path: string,
+  params: Record<string, string>,
+  accept: (node: RadixNode<R>) => boolean
+): RadixNode<R> | undefined {
+  if (path === "" && accept(node)) return node;
+
+  const child = path ? node.statics.get(path[0]!) : undefined;
+  if (child && path.startsWith(child.prefix)) {
+    const found = matchNode(child, path.slice(child.prefix.length), params, accept);
+    if (found) return found;
+  }
+
+  if (node.param && path) {
+    const end = path.indexOf("/");
+    const value = end === -1 ? path : path.slice(0, end);
+    if (value) {
+      params[node.param.name] = safeDecode(value);
+      const found = matchNode(node.param.node, path.slice(value.length), params, accept);
+      if (found) return found;
+      delete params[node.param.name];
+    }
+  }
+
+  if (node.wildcard && accept(node.wildcard)) {
+    params["*"] = safeDecode(path);
+    return node.wildcard;
+  }
+  return undefined;
+}
+
+// ===== ROUTER =====
+
+type RouterOptions<R> = {
+  notFound?: (method: Method, path: string) => R;
+  methodNotAllowed?: (method: Method, path: string, allow: Method[]) => R;
+};
+
+class Router<R = unknown> {
+  private root = new RadixNode<R>("");
+
+  constructor(private options: RouterOptions<R> = {}) {}
+
+  on<P extends string>(method: Method, pattern: P, handler: RouteHandler<P, R>): this {
+    for (const expanded of expandOptional(pattern)) {
+      let node = this.root;
+      for (const part of parsePattern(expanded)) {
+        if (part.kind === "static") {
+          node = insertStatic(node, part.text);
+        } else if (part.kind === "param") {
+          if (node.param && node.param.name !== part.name) {
+            throw new Error(`Conflicting params ":${node.param.name}" and ":${part.name}" in ${pattern}`);
+          }
+          node.param ??= { name: part.name, node: new RadixNode<R>("") };
+          node = node.param.node;
+        } else {
+          node = node.wildcard ??= new RadixNode<R>("");
+        }
+      }
+      if (node.routes.has(method)) throw new Error(`Duplicate route: ${method} ${expanded}`);
+      node.routes.set(method, { pattern, handler: handler as RouteHandler<string, R> });
+    }
+    return this;
+  }
+
+  get<P extends string>(pattern: P, handler: RouteHandler<P, R>) {
+    return this.on("GET", pattern, handler);
+  }
+
+  post<P extends string>(pattern: P, handler: RouteHandler<P, R>) {
+    return this.on("POST", pattern, handler);
+  }
+
+  put<P extends string>(pattern: P, handler: RouteHandler<P, R>) {
+    return this.on("PUT", pattern, handler);
+  }
+
+  patch<P extends string>(pattern: P, handler: RouteHandler<P, R>) {
+    return this.on("PATCH", pattern, handler);
+  }
+
+  delete<P extends string>(pattern: P, handler: RouteHandler<P, R>) {
+    return this.on("DELETE", pattern, handler);
+  }
+
+  // A path that exists under other methods yields 405 with the allowed methods, otherwise 404
+  match(method: Method, path: string): MatchResult<R> {
+    const params: Record<string, string> = {};
+    const node = matchNode(this.root, path, params, (n) => n.routes.has(method));
+    if (node) {
+      const route = node.routes.get(method)!;
+      return { status: 200, pattern: route.pattern, params, handler: route.handler };
+    }
+    const other = matchNode(this.root, path, {}, (n) => n.routes.size > 0);
+    if (other) return { status: 405, allow: [...other.routes.keys()].sort() };
+    return { status: 404 };
+  }
+
+  // Runs the matching handler; misses go to the configured fallbacks or throw a RouteError
+  handle(method: Method, url: string): R {
+    const [path = "", search = ""] = url.split("?", 2);
+    const result = this.match(method, path);
+    if (result.status === 200) {
+      return result.handler({
+        method,
+        path,
+        pattern: result.pattern,
+        params: result.params,
+        query: new URLSearchParams(search),
+      });
+    }
+    if (result.status === 405) {
+      if (this.options.methodNotAllowed) return this.options.methodNotAllowed(method, path, result.allow);
+      throw new RouteError(405, result.allow);
+    }
+    if (this.options.notFound) return this.options.notFound(method, path);
+    throw new RouteError(404);
+  }
+}
+
+export { Router, RouteError };
+
+// ===== USAGE EXAMPLE =====
+
+if (import.meta.filename === process.argv[1]) {
+  const router = new Router<string>({
+    notFound: (method, path) => `404 ${method} ${path}`,
+    methodNotAllowed: (_, path, allow) => `405 ${path} (allow: ${allow.join(", ")})`,
+  });
+
+  router
+    .get("/posts/:id/comments/:commentId", ({ params }) => {
+      // params: { id: string; commentId: string }
+      return `comment ${params.commentId} on post ${params.id}`;
+    })
+    .get("/users/:id?", ({ params }) => (params.id ? `user ${params.id}` : "all users"))
+    .get("/users/me", () => "current user")
+    .get("/files/*", ({ params }) => `file ${params["*"]}`)
+    .post("/posts", ({ query }) => `created draft=${query.get("draft")}`);
+
+  console.log(router.handle("GET", "/posts/7/comments/42")); // comment 42 on post 7
+  console.log(router.handle("GET", "/users/me")); // current user (static beats :id)
+  console.log(router.handle("GET", "/users/ada")); // user ada
+  console.log(router.handle("GET", "/users")); // all users
+  console.log(router.handle("GET", "/files/docs/a%20b.txt")); // file docs/a b.txt
+  console.log(router.handle("POST", "/posts?draft=true")); // created draft=true
+  console.log(router.handle("DELETE", "/posts")); // 405 /posts (allow: POST)
+  console.log(router.handle("GET", "/nope")); // 404 GET /nope
+}
+
+// ===== KEY CONCEPTS =====
+
+/*
+ * 1. Typed params come from the pattern literal via ExtractParams:
+ *    - ":name" -> required string, ":name?" -> optional string, "*" -> rest of the path
+ *
+ * 2. Radix tree matching:
+ *    - static text is stored on compressed edges and split as routes are added
+ *    - precedence is static > param > wildcard at each position, with backtracking
+ *
+ * 3. Deterministic misses:
+ *    - 405 when the path exists for other methods (with the allowed list)
+ *    - 404 otherwise
+ *    - duplicate routes and conflicting param names fail at registration
+ */
@@ -0,0 +1,258 @@
+/**
+ * Schema Builder
+ * Describes a shape once and derives both a runtime validator and its static type,
+ * so types like `Product` (mapped-types.ts) and `FormFields` (indexed-access-types.ts)
+ * can be validated without re-declaring them or falling back to `any`.
+ */
+
+import type { Result } from "./result.js";
+import type { Product, Validators } from "./mapped-types.js";
+import type { FieldValidator, FormFields } from "./indexed-access-types.js";
+
+// ===== ISSUES AND ERRORS =====
+
+type Path = (string | number)[];
+
+// One failed check, located by the property/index path from the root value
+type Issue = { path: Path; message: string };
+
+function formatIssue(issue: Issue): string {
+  return `${issue.path.length ? issue.path.join(".") : "(root)"}: ${issue.message}`;
+}
+
+class ValidationError extends Error {
+  constructor(public readonly issues: Issue[]) {
+    super(issues.map(formatIssue).join("; "));
+    this.name = "ValidationError";
+  }
+}
+
+// ===== SCHEMA CLASSES =====
+
+type Check<T> = (value: unknown, path: Path) => Result<T, Issue[]>;
+
+class Schema<T> {
+  constructor(private readonly check: Check<T>) {}
+
+  validate(value: unknown, path: Path = []): Result<T, Issue[]> {
+    return this.check(value, path);
+  }
+
+  parse(value: unknown): T {
+    const result = this.validate(value);
+    if (!result.ok) throw new ValidationError(result.error);
+    return result.value;
+  }
+
+  is(value: unknown): value is T {
+    return this.validate(value).ok;
+  }
+
+  // Adds a constraint that only runs once the base type check has passed
+  refine(predicate: (value: T) => boolean, message: string): Schema<T> {
+    return new Schema<T>(this.refined(predicate, message));
+  }
+
+  optional(): OptionalSchema<T> {
+    return new OptionalSchema<T>((value, path) =>
+      value === undefined ? { ok: true, value: undefined } : this.validate(value, path)
+    );
+  }
+
+  protected refined(predicate: (value: T) => boolean, message: string): Check<T> {
+    return (value, path) => {
+      const result = this.validate(value, path);
+      if (!result.ok || predicate(result.value)) return result;
+      return { ok: false, error: [{ path, message }] };
+    };
+  }
+}
+
+// Marks object properties that may be omitted
+class OptionalSchema<T> extends Schema<T | undefined> {
+  readonly isOptional = true;
+
+  // Stays optional, and the predicate only sees values that are present
+  refine(predicate: (value: T) => boolean, message: string): OptionalSchema<T> {
+    return new OptionalSchema<T>(this.refined((value) => value === undefined || predicate(value), message));
+  }
+}
+
+type Shape = Record<string, Schema<unknown>>;
+
+type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+type InferShape<S extends Shape> = Simplify<
+  {
+    [K in keyof S as S[K] extends OptionalSchema<unknown> ? never : K]: Infer<S[K]>;
+  } & {
+    // Omitted properties are left out of the output, never set to undefined
+    [K in keyof S as S[K] extends OptionalSchema<unknown> ? K : never]?: Exclude<Infer<S[K]>, undefined>;
+  }
+>;
+
+class ObjectSchema<S extends Shape> extends Schema<InferShape<S>> {
+  constructor(readonly shape: S) {
+    super((value, path) => {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return fail(path, "expected object");
+      }
+      const input = value as Record<string, unknown>;
+      const output: Record<string, unknown> = {};
+      const issues: Issue[] = [];
+      for (const key of Object.keys(shape)) {
+        const result = shape[key]!.validate(input[key], [...path, key]);
+        if (!result.ok) issues.push(...result.error);
+        else if (result.value !== undefined) output[key] = result.value;
+      }
+      // Unknown keys are dropped so the output matches the inferred type exactly
+      return issues.length
+        ? { ok: false, error: issues }
+        : { ok: true, value: output as InferShape<S> };
+    });
+  }
+}
+
+// ===== BUILDERS =====
+
+function fail(path: Path, message: string): Result<never, Issue[]> {
+  return { ok: false, error: [{ path, message }] };
+}
+
+function primitive<T>(name: string, guard: (value: unknown) => value is T): Schema<T> {
+  return new Schema<T>((value, path) =>
+    guard(value) ? { ok: true, value } : fail(path, `expected ${name}`)
+  );
+}
+
+const schema = {
+  string: () =>
+    primitive("string", (v): v is string => typeof v === "string"),
+
+  number: () =>
+    primitive("number", (v): v is number => typeof v === "number" && Number.isFinite(v)),
+
+  boolean: () =>
+    primitive("boolean", (v): v is boolean => typeof v === "boolean"),
+
+  literal: <const L extends string | number | boolean | null>(literal: L) =>
+    primitive(JSON.stringify(literal), (v): v is L => v === literal),
+
+  object: <S extends Shape>(shape: S) => new ObjectSchema(shape),
+
+  array: <T>(item: Schema<T>) =>
+    new Schema<T[]>((value, path) => {
+      if (!Array.isArray(value)) return fail(path, "expected array");
+      const items: T[] = [];
+      const issues: Issue[] = [];
+      value.forEach((element, i) => {
+        const result = item.validate(element, [...path, i]);
+        if (result.ok) items.push(result.value);
+        else issues.push(...result.error);
+      });
+      return issues.length ? { ok: false, error: issues } : { ok: true, value: items };
+    }),
+
+  // The first matching member wins; if none match, every member's issues are reported
+  union: <const S extends readonly Schema<unknown>[]>(...members: S) =>
+    new Schema<Infer<S[number]>>((value, path) => {
+      const issues: Issue[] = [];
+      for (const member of members) {
+        const result = member.validate(value, path);
+        if (result.ok) return result as Result<Infer<S[number]>, Issue[]>;
+        issues.push(...result.error);
+      }
+      return { ok: false, error: issues };
+    }),
+
+  optional: <T>(inner: Schema<T>) => inner.optional(),
+};
+
+// Per-field boolean validators in the shape of `Validators<T>` from mapped-types.ts
+function fieldValidators<S extends Shape>(
+  objectSchema: ObjectSchema<S>
+): Validators<InferShape<S>> {
+  const out: Record<string, (value: unknown) => boolean> = {};
+  for (const key of Object.keys(objectSchema.shape)) {
+    out[key] = (value) => objectSchema.shape[key]!.validate(value).ok;
+  }
+  return out as Validators<InferShape<S>>;
+}
+
+export type { Issue, Path, Infer, InferShape };
+
+export { schema, fieldValidators, Schema, OptionalSchema, ObjectSchema, ValidationError };
+
+// ===== USAGE EXAMPLES =====
+
+if (import.meta.filename === process.argv[1]) {
+  // Example 1: Product — the schema is checked against the existing interface
+  const productSchema = schema.object({
+    id: schema.number().refine((v) => v > 0, "must be positive"),
+    name: schema.string().refine((v) => v.length > 0, "must not be empty"),
+    price: schema.number().refine((v) => v > 0, "must be positive"),
+    inStock: schema.boolean(),
+  }) satisfies Schema<Product>;
+
+  type InferredProduct = Infer<typeof productSchema>;
+  // Result: { id: number; name: string; price: number; inStock: boolean }
+
+  const productValidators: Validators<Product> = fieldValidators(productSchema);
+
+  console.log(productSchema.validate({ id: 1, name: "Lamp", price: 20, inStock: true }));
+  console.log(productSchema.validate({ id: -1, name: "", price: "20" }));
+  // Result: { ok: false, error: [{ path: ["id"], ... }, { path: ["name"], ... }, ...] }
+
+  // Example 2: FormFields — per-field validators without FieldValidator<any>
+  const formSchema = schema.object({
+    username: schema.string().refine((v) => v.length > 0, "is required"),
+    password: schema.string().refine((v) => v.length >= 8, "needs at least 8 characters"),
+    email: schema.string().refine((v) => v.includes("@"), "must contain @"),
+    age: schema.number().refine((v) => v >= 18, "must be 18 or older"),
+  }) satisfies Schema<FormFields>;
+
+  const formValidators: { [F in keyof FormFields]: FieldValidator<F> } = fieldValidators(formSchema);
+  console.log(formValidators.password("short"));
+  // Result: false
+
+  // Example 3: Nested objects, arrays, unions, literals and optional fields
+  const orderSchema = schema.object({
+    status: schema.union(schema.literal("open"), schema.literal("shipped")),
+    items: schema.array(schema.object({ sku: schema.string(), qty: schema.number() })),
+    note: schema.optional(schema.string()),
+    coupon: schema.string().optional().refine((v) => /^[A-Z]{4}$/.test(v), "must be four capital letters"),
+  });
+
+  type Order = Infer<typeof orderSchema>;
+  // Result: { status: "open" | "shipped"; items: { sku: string; qty: number }[]; note?: string; coupon?: string }
+
+  try {
+    orderSchema.parse({ status: "lost", items: [{ sku: "A1", qty: "2" }], coupon: "10off" });
+  } catch (e) {
+    if (e instanceof ValidationError) console.log(e.message);
+    // status: expected "open"; status: expected "shipped"; items.0.qty: expected number; coupon: must be four capital letters
+  }
+}
+
+// ===== KEY CONCEPTS =====
+
+/*
+ * 1. One source of truth:
+ *    - Infer<typeof schema> derives the static type from the runtime schema
+ *    - `satisfies Schema<T>` checks a schema against an existing interface
+ *
+ * 2. Structured errors:
+ *    - validate() returns Result<T, Issue[]> and never throws
+ *    - Each Issue carries the path to the failing value
+ *    - parse() throws a ValidationError listing every issue
+ *
+ * 3. Composition:
+ *    - object / array / union build on child schemas and extend the path
+ *    - refine() layers custom constraints over a type check
+ *    - optional() makes object properties omissible in the inferred type
+ *
+ * 4. Interop:
+ *    - fieldValidators() yields the Validators<T> mapped type from mapped-types.ts
+ */
@@ -0,0 +1,349 @@
+/**
+ * Semantic Versioning
+ * `Version` / `SemanticVersion` (template-literal-types.ts) only describe the shape of a
+ * version string and can't require digits. `parse` validates against SemVer 2.0.0 and
+ * returns a branded `SemVer`, the only type `compare`, `satisfies` and `inc` accept.
+ * Ranges support comparators, `||`, `^`, `~`, x-ranges and hyphen ranges (npm semantics).
+ */
+
+import type { SemanticVersion, Version } from "./template-literal-types.js";
+
+// ===== TYPES =====
+
+declare const semverBrand: unique symbol;
+
+// A normalized version string that has passed `parse`; can't be produced by a literal
+type SemVer = (Version | `${Version}-${string}` | `${Version}+${string}`) & { readonly [semverBrand]: true };
+
+type Identifier = string | number;
+
+type SemVerParts = {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: Identifier[];
+  build: string[];
+};
+
+type ReleaseType = "major" | "minor" | "patch" | "prerelease";
+
+type Operator = "<" | "<=" | ">" | ">=" | "=";
+
+type Comparator = { operator: Operator; version: SemVerParts };
+
+export type { SemVer, SemVerParts, ReleaseType };
+
+class SemVerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SemVerError";
+  }
+}
+
+// ===== PARSING =====
+
+const NUMERIC = "0|[1-9]\\d*";
+const PRERELEASE_ID = `(?:${NUMERIC}|\\d*[a-zA-Z-][0-9a-zA-Z-]*)`;
+const PRERELEASE = `(?:-(${PRERELEASE_ID}(?:\\.${PRERELEASE_ID})*))`;
+const BUILD = `(?:\\+([0-9a-zA-Z-]+(?:\\.[0-9a-zA-Z-]+)*))`;
+const FULL = new RegExp(`^v?(${NUMERIC})\\.(${NUMERIC})\\.(${NUMERIC})${PRERELEASE}?${BUILD}?$`);
+
+function toNumber(text: string): number {
+  const value = Number(text);
+  if (!Number.isSafeInteger(value)) throw new SemVerError(`Version component ${text} is too large`);
+  return value;
+}
+
+function parseParts(input: string): SemVerParts | undefined {
+  const match = FULL.exec(input.trim());
+  if (!match) return undefined;
+  const [, major, minor, patch, prerelease, build] = match;
+  return {
+    major: toNumber(major!),
+    minor: toNumber(minor!),
+    patch: toNumber(patch!),
+    prerelease: prerelease ? prerelease.split(".").map((id) => (/^\d+$/.test(id) ? toNumber(id) : id)) : [],
+    build: build ? build.split(".") : [],
+  };
+}
+
+function format(parts: SemVerParts): SemVer {
+  let text = `${parts.major}.${parts.minor}.${parts.patch}`;
+  if (parts.prerelease.length) text += `-${parts.prerelease.join(".")}`;
+  if (parts.build.length) text += `+${parts.build.join(".")}`;
+  return text as SemVer;
+}
+
+// Accepts an optional leading "v" and surrounding whitespace; the result is normalized
+function parse(input: string): SemVer {
+  const parts = parseParts(input);
+  if (!parts) throw new SemVerError(`Invalid version: "${input}"`);
+  return format(parts);
+}
+
+function isSemVer(value: unknown): value is SemVer {
+  return typeof value === "string" && FULL.test(value) && !value.startsWith("v");
+}
+
+function partsOf(version: SemVer): SemVerParts {
+  return parseParts(version)!;
+}
+
+// ===== COMPARISON =====
+
+function compareIdentifiers(a: Identifier, b: Identifier): number {
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  // Numeric identifiers always sort before alphanumeric ones
+  if (typeof a === "number") return -1;
+  if (typeof b === "number") return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareParts(a: SemVerParts, b: SemVerParts): number {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (core) return core;
+  // A release sorts after all of its pre-releases
+  if (!a.prerelease.length || !b.prerelease.length) return b.prerelease.length - a.prerelease.length;
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const x = a.prerelease[i];
+    const y = b.prerelease[i];
+    if (x === undefined) return -1;
+    if (y === undefined) return 1;
+    const order = compareIdentifiers(x, y);
+    if (order) return order;
+  }
+  return 0;
+}
+
+// Build metadata is ignored, as the spec requires
+function compare(a: SemVer, b: SemVer): -1 | 0 | 1 {
+  return Math.sign(compareParts(partsOf(a), partsOf(b))) as -1 | 0 | 1;
+}
+
+// ===== RANGES =====
+
+type PartialVersion = { major?: number; minor?: number; patch?: number; prerelease: Identifier[] };
+
+const X = "x|X|\\*";
+const PARTIAL = new RegExp(
+  `^v?(${NUMERIC}|${X})(?:\\.(${NUMERIC}|${X})(?:\\.(${NUMERIC}|${X})${PRERELEASE}?${BUILD}?)?)?$`
+);
+
+function parsePartial(text: string): PartialVersion {
+  const match = PARTIAL.exec(text);
+  if (!match) throw new SemVerError(`Invalid version in range: "${text}"`);
+  const [, major, minor, patch, prerelease] = match;
+  const num = (part?: string) => (part === undefined || /^[xX*]$/.test(part) ? undefined : toNumber(part));
+  const result: PartialVersion = { prerelease: prerelease ? parseParts(`0.0.0-${prerelease}`)!.prerelease : [] };
+  const values = [num(major), num(minor), num(patch)];
+  // Anything after a wildcard is a wildcard too: "1.x.3" means "1.x"
+  const wildcard = values.indexOf(undefined);
+  const [ma, mi, pa] = wildcard === -1 ? values : values.map((v, i) => (i < wildcard ? v : undefined));
+  if (ma !== undefined) result.major = ma;
+  if (mi !== undefined) result.minor = mi;
+  if (pa !== undefined) result.patch = pa;
+  return result;
+}
+
+const v = (major: number, minor: number, patch: number, prerelease: Identifier[] = []): SemVerParts => ({
+  major,
+  minor,
+  patch,
+  prerelease,
+  build: [],
+});
+
+// The "-0" pre-release keeps pre-releases of the next version out of an exclusive upper bound
+const below = (major: number, minor: number, patch: number): Comparator => ({
+  operator: "<",
+  version: v(major, minor, patch, [0]),
+});
+
+const atLeast = (p: PartialVersion): Comparator => ({
+  operator: ">=",
+  version: v(p.major ?? 0, p.minor ?? 0, p.patch ?? 0, p.prerelease),
+});
+
+// Upper bound implied by the missing components of a partial version
+function nextAfter(p: PartialVersion): Comparator | undefined {
+  if (p.major === undefined) return undefined;
+  if (p.minor === undefined) return below(p.major + 1, 0, 0);
+  return below(p.major, p.minor + 1, 0);
+}
+
+function caret(p: PartialVersion): Comparator[] {
+  if (p.major === undefined) return [];
+  const lower = atLeast(p);
+  if (p.major > 0 || p.minor === undefined) return [lower, below(p.major + 1, 0, 0)];
+  if (p.minor > 0 || p.patch === undefined) return [lower, below(0, p.minor + 1, 0)];
+  return [lower, below(0, 0, p.patch + 1)];
+}
+
+function tilde(p: PartialVersion): Comparator[] {
+  if (p.major === undefined) return [];
+  return [atLeast(p), nextAfter(p)!];
+}
+
+function primitive(operator: Operator, p: PartialVersion): Comparator[] {
+  const complete = p.patch !== undefined;
+  if (complete) return [{ operator, version: v(p.major!, p.minor!, p.patch!, p.prerelease) }];
+  if (p.major === undefined) return operator === "<" || operator === ">" ? [below(0, 0, 0)] : [];
+  const upper = nextAfter(p)!;
+  switch (operator) {
+    case "=":
+      return [atLeast(p), upper];
+    case ">=":
+      return [atLeast(p)];
+    case "<":
+      return [below(p.major, p.minor ?? 0, 0)];
+    case ">":
+      return [{ operator: ">=", version: v(upper.version.major, upper.version.minor, upper.version.patch) }];
+    case "<=":
+      return [upper];
+  }
+}
+
+// "1.2 - 2.3.4": each side may be partial; a partial upper bound covers its whole range
+function hyphen(from: PartialVersion, to: PartialVersion): Comparator[] {
+  const lower = from.major === undefined ? [] : [atLeast(from)];
+  if (to.major === undefined) return lower;
+  if (to.patch === undefined) return [...lower, nextAfter(to)!];
+  return [...lower, { operator: "<=", version: v(to.major, to.minor!, to.patch, to.prerelease) }];
+}
+
+function parseComparatorSet(text: string): Comparator[] {
+  const hyphenMatch = /^(\S+)\s+-\s+(\S+)$/.exec(text);
+  if (hyphenMatch) return hyphen(parsePartial(hyphenMatch[1]!), parsePartial(hyphenMatch[2]!));
+
+  // "> 1.2" is the same as ">1.2"
+  const tokens = text.replace(/([<>=~^])\s+/g, "$1").split(/\s+/).filter(Boolean);
+  return tokens.flatMap((token) => {
+    const [, operator = "", version = ""] = /^(\^|~>?|[<>]=?|=)?(.*)$/.exec(token)!;
+    const partial = parsePartial(version);
+    if (operator === "^") return caret(partial);
+    if (operator.startsWith("~")) return tilde(partial);
+    return primitive((operator || "=") as Operator, partial);
+  });
+}
+
+function test(comparator: Comparator, version: SemVerParts): boolean {
+  const order = compareParts(version, comparator.version);
+  switch (comparator.operator) {
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    case ">":
+      return order > 0;
+    case ">=":
+      return order >= 0;
+    case "=":
+      return order === 0;
+  }
+}
+
+const sameCore = (a: SemVerParts, b: SemVerParts) => a.major === b.major && a.minor === b.minor && a.patch === b.patch;
+
+/**
+ * npm-style range matching. A pre-release version only matches a comparator set that
+ * mentions a pre-release of the same major.minor.patch, so "^1.2.0" doesn't match
+ * "1.3.0-beta" but ">=1.3.0-alpha" does.
+ */
+function satisfies(version: SemVer, range: string): boolean {
+  const parts = partsOf(version);
+  return range.split("||").some((set) => {
+    const comparators = parseComparatorSet(set.trim());
+    if (!comparators.every((c) => test(c, parts))) return false;
+    if (!parts.prerelease.length) return true;
+    return comparators.some((c) => c.version.prerelease.length > 0 && sameCore(c.version, parts));
+  });
+}
+
+// ===== INCREMENT =====
+
+/**
+ * - major / minor / patch drop any pre-release; "2.0.0-rc.1" -> inc "major" -> "2.0.0"
+ * - prerelease bumps the last numeric identifier ("1.0.0-beta.1" -> "1.0.0-beta.2"), or
+ *   starts a pre-release of the next patch ("1.0.0" -> "1.0.1-<preid>.0")
+ * Build metadata is always dropped.
+ */
+function inc(version: SemVer, release: ReleaseType, preid?: string): SemVer {
+  const { major, minor, patch, prerelease } = partsOf(version);
+  const pre = prerelease.length > 0;
+  switch (release) {
+    case "major":
+      return format(v(pre && minor === 0 && patch === 0 ? major : major + 1, 0, 0));
+    case "minor":
+      return format(v(major, pre && patch === 0 ? minor : minor + 1, 0));
+    case "patch":
+      return format(v(major, minor, pre ? patch : patch + 1));
+    case "prerelease": {
+      const start = preid ? [preid, 0] : [0];
+      if (!pre) return format(v(major, minor, patch + 1, start));
+      if (preid && prerelease[0] !== preid) return format(v(major, minor, patch, start));
+      const next = [...prerelease];
+      const last = next.findLastIndex((id) => typeof id === "number");
+      if (last === -1) next.push(0);
+      else next[last] = (next[last] as number) + 1;
+      return format(v(major, minor, patch, next));
+    }
+  }
+}
+
+export { parse, format, isSemVer, compare, satisfies, inc, SemVerError };
+
+// ===== USAGE EXAMPLE =====
+
+if (import.meta.filename === process.argv[1]) {
+  const current = parse("v1.4.2");
+  // const fake: SemVer = "1.4.2"; // Error: a plain string isn't a SemVer
+  const loose: SemanticVersion = "one.two.three"; // the template type accepts this; parse() doesn't
+
+  try {
+    parse(loose);
+  } catch (e) {
+    console.log((e as Error).message); // Invalid version: "one.two.three"
+  }
+
+  const versions = ["1.0.0", "1.0.0-alpha", "1.0.0-alpha.1", "1.0.0-beta", "1.0.0-alpha.beta", "0.9.12", "1.0.0+build.5"].map(parse);
+  console.log(versions.sort(compare));
+  // [ '0.9.12', '1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-alpha.beta', '1.0.0-beta', '1.0.0', '1.0.0+build.5' ]
+
+  const checks: [string, string][] = [
+    ["1.4.2", "^1.2.0"], // true
+    ["2.0.0", "^1.2.0"], // false
+    ["0.2.5", "^0.2.3"], // true
+    ["0.3.0", "^0.2.3"], // false
+    ["1.2.9", "~1.2.3"], // true
+    ["1.3.0", "~1.2.3"], // false
+    ["1.9.9", "1.x"], // true
+    ["2.3.9", "1.2 - 2.3"], // true
+    ["2.4.0", "1.2 - 2.3"], // false
+    ["3.0.0", "<2.0.0 || >=3.0.0"], // true
+    ["1.3.0-beta", "^1.2.0"], // false: pre-releases need an explicit opt-in
+    ["1.3.0-beta.2", ">=1.3.0-beta.1 <1.4.0"], // true
+  ];
+  for (const [version, range] of checks) console.log(version, range, satisfies(parse(version), range));
+
+  console.log(inc(current, "minor"), inc(current, "prerelease", "rc"), inc(parse("1.5.0-rc.0"), "prerelease"));
+  // 1.5.0 1.4.3-rc.0 1.5.0-rc.1
+  console.log(inc(parse("2.0.0-rc.1"), "major")); // 2.0.0
+}
+
+// ===== KEY CONCEPTS =====
+
+/*
+ * 1. Branding: SemVer is a string intersected with a unique symbol, so only parse()
+ *    (or isSemVer()) can produce one
+ *
+ * 2. Precedence follows SemVer 2.0.0:
+ *    - numeric comparison of major.minor.patch
+ *    - pre-releases sort before the release; numeric identifiers before alphanumeric
+ *    - build metadata is ignored
+ *
+ * 3. Ranges desugar to comparator sets joined by ||:
+ *    - ^1.2.3 -> >=1.2.3 <2.0.0-0     ~1.2.3 -> >=1.2.3 <1.3.0-0
+ *    - 1.x    -> >=1.0.0 <2.0.0-0     1.2 - 2.3 -> >=1.2.0 <2.4.0-0
+ *
+ * 4. inc() follows npm: bumping a pre-release to its release drops the tag
+ */
@@ -0,0 +1,303 @@
+/**
+ * Executable State Machine
+ * Turns a transition table like `ValidTransitions` (conditional-types.ts) into a runtime
+ * machine. Illegal `transition(to)` calls are rejected by the compiler and at runtime.
+ * Supports hooks, guards, cancellable async actions, `"${State}:enter"`-style events and
+ * serializable snapshots.
+ */
+
+import type { CanTransition, ValidTransitions } from "./conditional-types.js";
+import type { State, StateEvent } from "./template-literal-types.js";
+
+// ===== TYPES =====
+
+type TransitionTable = Record<string, readonly string[]>;
+
+type StateOf<T> = keyof T & string;
+
+// Targets reachable from every state in S (just T[S] when S is a single state)
+type TargetsFrom<T extends TransitionTable, S extends StateOf<T>> = {
+  [K in S]: (target: T[K][number]) => void;
+}[S] extends (target: infer I) => void
+  ? I
+  : never;
+
+// "idle->loading" | "idle->error" | ...
+type TransitionKey<T extends TransitionTable> = {
+  [F in StateOf<T>]: `${F}->${T[F][number]}`;
+}[StateOf<T>];
+
+type MachineEvent<T extends TransitionTable> = `${StateOf<T>}:enter` | `${StateOf<T>}:exit` | "transition";
+
+type TransitionInfo<T extends TransitionTable, C> = {
+  from: StateOf<T>;
+  to: StateOf<T>;
+  context: C;
+};
+
+// Must stay JSON-serializable for rehydration
+type Snapshot<T extends TransitionTable, C> = { state: StateOf<T>; context: C };
+
+type MachineConfig<T extends TransitionTable, C> = {
+  transitions: T;
+  context: C;
+  onEnter?: { [S in StateOf<T>]?: (info: TransitionInfo<T, C>) => void };
+  onExit?: { [S in StateOf<T>]?: (info: TransitionInfo<T, C>) => void };
+  onTransition?: (info: TransitionInfo<T, C>) => void;
+  // Returning false (or resolving to false) rejects the transition
+  guards?: { [K in TransitionKey<T>]?: (info: TransitionInfo<T, C>) => boolean | Promise<boolean> };
+  // Started on entering the state; its signal aborts as soon as the state is left
+  invoke?: {
+    [S in StateOf<T>]?: (args: {
+      signal: AbortSignal;
+      context: C;
+      machine: StateMachine<T, C, S>;
+    }) => void | Promise<void>;
+  };
+  // Receives errors from invoked actions, hooks and listeners, with the state they ran in.
+  // They never stop a transition halfway; without this callback they are dropped.
+  onError?: (error: unknown, state: StateOf<T>) => void;
+};
+
+export type { TransitionTable, StateOf, TargetsFrom, TransitionKey, MachineEvent, Snapshot, MachineConfig };
+
+class TransitionError extends Error {
+  constructor(
+    public readonly from: string,
+    public readonly to: string,
+    reason: "invalid" | "guard"
+  ) {
+    super(
+      reason === "invalid"
+        ? `Invalid transition: ${from} -> ${to}`
+        : `Transition ${from} -> ${to} rejected by guard`
+    );
+    this.name = "TransitionError";
+  }
+}
+
+// ===== MACHINE =====
+
+class StateMachine<T extends TransitionTable, C, S extends StateOf<T> = StateOf<T>> {
+  private current: StateOf<T>;
+  private listeners = new Map<MachineEvent<T>, Set<(info: TransitionInfo<T, C>) => void>>();
+  private queue: Promise<unknown> = Promise.resolve();
+  private action?: AbortController;
+
+  constructor(private config: MachineConfig<T, C>, start: Snapshot<T, C>) {
+    this.current = start.state;
+    this.context = start.context;
+    this.startAction();
+  }
+
+  context: C;
+
+  get state(): S {
+    return this.current as S;
+  }
+
+  // Narrows the machine so `transition` only accepts targets legal from `state`
+  is<K extends S>(state: K): this is StateMachine<T, C, K> {
+    return this.current === state;
+  }
+
+  can(to: string): boolean {
+    return this.config.transitions[this.current]?.includes(to) ?? false;
+  }
+
+  on(event: MachineEvent<T>, listener: (info: TransitionInfo<T, C>) => void): () => void {
+    const set = this.listeners.get(event) ?? new Set();
+    set.add(listener);
+    this.listeners.set(event, set);
+    return () => set.delete(listener);
+  }
+
+  // Transitions run one at a time; each is validated against the state it starts from.
+  // Resolves with the same machine, narrowed to the new state.
+  transition<To extends TargetsFrom<T, S>>(to: To): Promise<StateMachine<T, C, To & StateOf<T>>> {
+    const run = this.queue.then(async () => {
+      const from = this.current;
+      const target = to as StateOf<T>;
+      if (!this.can(target)) throw new TransitionError(from, target, "invalid");
+      const info: TransitionInfo<T, C> = { from, to: target, context: this.context };
+
+      const guard = this.config.guards?.[`${from}->${target}` as TransitionKey<T>];
+      if (guard && !(await guard(info))) throw new TransitionError(from, target, "guard");
+
+      // Past the guard the transition always completes, so hooks and listeners are isolated
+      this.action?.abort();
+      this.safely(from, () => this.config.onExit?.[from]?.(info));
+      this.emit(`${from}:exit`, info);
+      this.current = target;
+      this.safely(target, () => this.config.onTransition?.(info));
+      this.emit("transition", info);
+      this.safely(target, () => this.config.onEnter?.[target]?.(info));
+      this.emit(`${target}:enter`, info);
+      this.startAction();
+      return this as unknown as StateMachine<T, C, To & StateOf<T>>;
+    });
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  snapshot(): Snapshot<T, C> {
+    return JSON.parse(JSON.stringify({ state: this.current, context: this.context }));
+  }
+
+  // Drops the compile-time state, e.g. after an invoked action may have moved the machine on
+  widen(): StateMachine<T, C> {
+    return this;
+  }
+
+  // Aborts the running action, if any, without leaving the state
+  stop() {
+    this.action?.abort();
+  }
+
+  private startAction() {
+    const state = this.current;
+    const invoke = this.config.invoke?.[state];
+    if (!invoke) return;
+    const controller = new AbortController();
+    this.action = controller;
+    Promise.resolve()
+      .then(() =>
+        invoke({ signal: controller.signal, context: this.context, machine: this as unknown as StateMachine<T, C, never> })
+      )
+      .catch((e) => {
+        if (!controller.signal.aborted) this.reportError(e, state);
+      });
+  }
+
+  private emit(event: MachineEvent<T>, info: TransitionInfo<T, C>) {
+    for (const listener of this.listeners.get(event) ?? []) this.safely(this.current, () => listener(info));
+  }
+
+  private safely(state: StateOf<T>, fn: () => void) {
+    try {
+      fn();
+    } catch (e) {
+      this.reportError(e, state);
+    }
+  }
+
+  // A throwing onError has nowhere left to report to, so it is ignored too
+  private reportError(error: unknown, state: StateOf<T>) {
+    try {
+      this.config.onError?.(error, state);
+    } catch {}
+  }
+}
+
+function createMachine<const T extends TransitionTable, C, I extends StateOf<T>>(
+  config: MachineConfig<T, C> & { initial: I }
+): StateMachine<T, C, I> {
+  return new StateMachine<T, C, I>(config, { state: config.initial, context: config.context });
+}
+
+// Rehydrates from `snapshot()` output; the state is only known at runtime, so narrow with `is()`
+function restoreMachine<const T extends TransitionTable, C>(
+  config: MachineConfig<T, C>,
+  snapshot: Snapshot<T, C>
+): StateMachine<T, C> {
+  if (!(snapshot.state in config.transitions)) throw new Error(`Unknown state: ${snapshot.state}`);
+  return new StateMachine<T, C>(config, snapshot);
+}
+
+export { createMachine, restoreMachine, StateMachine, TransitionError };
+
+// ===== USAGE EXAMPLE =====
+
+if (import.meta.filename === process.argv[1]) {
+  // The runtime table is checked against ValidTransitions from conditional-types.ts
+  type TableFor<VT> = { [K in keyof VT]: readonly VT[K][] };
+
+  const fetchMachine = createMachine({
+    initial: "idle",
+    context: { url: "/users", attempts: 0, error: "" },
+    transitions: {
+      idle: ["loading", "error"],
+      loading: ["success", "error"],
+      success: ["idle"],
+      error: ["idle", "loading"],
+    } satisfies TableFor<ValidTransitions>,
+    guards: {
+      "error->loading": ({ context }) => context.attempts < 3,
+    },
+    onEnter: {
+      loading: ({ context }) => context.attempts++,
+    },
+    invoke: {
+      // Cancelled automatically if the machine leaves "loading" first
+      loading: async ({ signal, context, machine }) => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        if (signal.aborted) return;
+        if (context.attempts < 2) {
+          context.error = "timeout";
+          await machine.transition("error");
+        } else {
+          await machine.transition("success");
+        }
+      },
+      // Retries through the "error->loading" guard
+      error: async ({ signal, machine }) => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        if (!signal.aborted) await machine.transition("loading");
+      },
+    },
+  });
+
+  // Every state name is a `State` from template-literal-types.ts
+  type MachineStates = ReturnType<typeof fetchMachine.snapshot>["state"];
+  type StatesMatch = [MachineStates] extends [State] ? true : false; // true
+  const enterEvent: `${State}:enter` = "loading:enter";
+  const prefix: StateEvent = "loading:";
+
+  fetchMachine.on("transition", ({ from, to }) => console.log(`${from} -> ${to}`));
+  fetchMachine.on(enterEvent, ({ context }) => console.log("attempt", context.attempts));
+
+  (async () => {
+    const loading = await fetchMachine.transition("loading");
+    // loading.transition("idle"); // Error: "idle" is not reachable from "loading"
+    type LoadingToIdle = CanTransition<"loading", "idle">; // false
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    console.log("state:", loading.widen().state); // success (loading -> error -> loading -> success via actions)
+
+    const saved = JSON.stringify(fetchMachine.snapshot());
+    const restored = restoreMachine(
+      { transitions: { idle: ["loading", "error"], loading: ["success", "error"], success: ["idle"], error: ["idle", "loading"] }, context: { url: "", attempts: 0, error: "" } },
+      JSON.parse(saved)
+    );
+    if (restored.is("success")) await restored.transition("idle");
+    console.log("restored:", restored.state, restored.context);
+
+    const current = fetchMachine.widen();
+    if (current.is("success")) await current.transition("idle");
+    // `loading` is still typed as the "loading" state; the runtime check catches the stale type
+    await loading.transition("success").catch((e: Error) => console.log(e.message));
+    // Invalid transition: idle -> success
+  })();
+}
+
+// ===== KEY CONCEPTS =====
+
+/*
+ * 1. One table, two checks:
+ *    - TargetsFrom<T, S> limits transition() targets at compile time
+ *    - the same table is consulted at runtime, throwing TransitionError
+ *
+ * 2. Narrowing:
+ *    - transition() resolves with the machine typed as the new state
+ *    - is() narrows a machine whose state is only known at runtime
+ *
+ * 3. Lifecycle: guard -> exit hook -> "<from>:exit" -> transition -> enter hook -> "<to>:enter"
+ *
+ * 4. Async actions (invoke) start on entry and receive an AbortSignal
+ *    that fires when the state is left
+ *
+ * 5. Errors from actions, hooks and listeners go to onError; they never leave
+ *    the machine between two states
+ *
+ * 6. snapshot() / restoreMachine() round-trip state and context through JSON
+ */
@@ -0,0 +1,316 @@
+/**
+ * Typed Store
+ * A small Redux-style store for discriminated action unions such as `Action`
+ * (conditional-types.ts) or `ReduxActionType`-keyed actions (template-literal-types.ts).
+ * Action creators are derived from the union, reducer maps must handle every action type,
+ * and the store adds middleware (logging, thunks), memoized selectors and time-travel history.
+ */
+
+import type { Action, ActionPayload } from "./conditional-types.js";
+import type { ReduxActionType } from "./template-literal-types.js";
+
+// ===== ACTION TYPES =====
+
+type AnyAction = { type: string; payload?: unknown };
+
+type ActionOfType<A extends AnyAction, K extends A["type"]> = Extract<A, { type: K }>;
+
+// Actions without a payload get zero-argument creators
+type ActionCreators<A extends AnyAction> = {
+  [K in A["type"]]: ActionOfType<A, K> extends { payload: infer P }
+    ? (payload: P) => ActionOfType<A, K>
+    : () => ActionOfType<A, K>;
+};
+
+// Exhaustive: leaving out an action type (or adding an unknown one) is a compile error
+type ReducerMap<S, A extends AnyAction> = {
+  [K in A["type"]]: (state: S, action: ActionOfType<A, K>) => S;
+};
+
+type Reducer<S, A extends AnyAction> = (state: S, action: A) => S;
+
+// ===== STORE TYPES =====
+
+type Thunk<S, A extends AnyAction, R = void> = (dispatch: Dispatch<S, A>, getState: () => S) => R;
+
+type Dispatch<S, A extends AnyAction> = {
+  (action: A): A;
+  // Requires the `thunk` middleware
+  <R>(thunk: Thunk<S, A, R>): R;
+};
+
+type MiddlewareApi<S, A extends AnyAction> = {
+  getState: () => S;
+  dispatch: Dispatch<S, A>;
+};
+
+// Sees everything passed to dispatch, including thunks, before the reducer does
+type Middleware<S, A extends AnyAction> = (
+  api: MiddlewareApi<S, A>
+) => (next: (action: unknown) => unknown) => (action: unknown) => unknown;
+
+type HistoryEntry<S, A extends AnyAction> = { action: A | { type: "@@init" }; state: S };
+
+type StoreOptions<S, A extends AnyAction> = {
+  middleware?: Middleware<S, A>[];
+  // Number of past states kept for time travel (0 disables history)
+  historyLimit?: number;
+};
+
+type Store<S, A extends AnyAction> = {
+  getState: () => S;
+  dispatch: Dispatch<S, A>;
+  subscribe: (listener: () => void) => () => void;
+  history: {
+    readonly entries: readonly HistoryEntry<S, A>[];
+    readonly index: number;
+    undo: () => boolean;
+    redo: () => boolean;
+    jumpTo: (index: number) => void;
+  };
+};
+
+export type {
+  AnyAction,
+  Selector,
+  ActionCreators,
+  ReducerMap,
+  Reducer,
+  Thunk,
+  Dispatch,
+  Middleware,
+  HistoryEntry,
+  StoreOptions,
+  Store,
+};
+
+// ===== ACTIONS AND REDUCERS =====
+
+// One creator per listed type, on a plain object (so `in`, Object.keys and String() behave).
+// Listing a type that isn't part of `A` is a compile error; list all of them, since the
+// result is typed as having a creator for every type in `A`.
+function createActions<A extends AnyAction>(types: readonly A["type"][]): ActionCreators<A> {
+  const creators: Record<string, (...args: [unknown?]) => AnyAction> = {};
+  for (const type of types) {
+    creators[type] = (...args) => (args.length ? { type, payload: args[0] } : { type });
+  }
+  return creators as ActionCreators<A>;
+}
+
+// Unknown action types (e.g. from other slices) leave the state unchanged
+function createReducer<S, A extends AnyAction>(handlers: ReducerMap<S, A>): Reducer<S, A> {
+  return (state, action) => {
+    const handler = handlers[action.type as A["type"]] as Reducer<S, A> | undefined;
+    return handler ? handler(state, action) : state;
+  };
+}
+
+// ===== STORE =====
+
+function createStore<S, A extends AnyAction>(
+  reducer: Reducer<S, A>,
+  initialState: S,
+  options: StoreOptions<S, A> = {}
+): Store<S, A> {
+  const limit = options.historyLimit ?? 50;
+  const listeners = new Set<() => void>();
+  let entries: HistoryEntry<S, A>[] = [{ action: { type: "@@init" }, state: initialState }];
+  let index = 0;
+  let state = initialState;
+  let reducing = false;
+
+  const notify = () => {
+    for (const listener of [...listeners]) listener();
+  };
+
+  const moveTo = (next: number) => {
+    index = next;
+    state = entries[next]!.state;
+    notify();
+  };
+
+  function baseDispatch(action: unknown): unknown {
+    if (typeof action !== "object" || action === null || typeof (action as AnyAction).type !== "string") {
+      throw new TypeError("Actions must be plain objects with a string `type`; use the thunk middleware for functions");
+    }
+    if (reducing) throw new Error("Reducers may not dispatch actions");
+    try {
+      reducing = true;
+      state = reducer(state, action as A);
+    } finally {
+      reducing = false;
+    }
+    if (limit > 0) {
+      // Dispatching after an undo discards the redo branch
+      entries = [...entries.slice(0, index + 1), { action: action as A, state }].slice(-(limit + 1));
+      index = entries.length - 1;
+    }
+    notify();
+    return action;
+  }
+
+  const api: MiddlewareApi<S, A> = {
+    getState: () => state,
+    // Goes through the whole chain, so thunks can dispatch thunks
+    dispatch: ((action: unknown) => dispatch(action)) as Dispatch<S, A>,
+  };
+  const dispatch = (options.middleware ?? [])
+    .map((middleware) => middleware(api))
+    .reduceRight<(action: unknown) => unknown>((next, middleware) => middleware(next), baseDispatch);
+
+  return {
+    getState: () => state,
+    dispatch: dispatch as Dispatch<S, A>,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    history: {
+      get entries() {
+        return entries;
+      },
+      get index() {
+        return index;
+      },
+      undo: () => (index > 0 ? (moveTo(index - 1), true) : false),
+      redo: () => (index < entries.length - 1 ? (moveTo(index + 1), true) : false),
+      jumpTo(target) {
+        if (target < 0 || target >= entries.length) throw new RangeError(`No history entry ${target}`);
+        moveTo(target);
+      },
+    },
+  };
+}
+
+// ===== MIDDLEWARE =====
+
+function thunk<S, A extends AnyAction>(): Middleware<S, A> {
+  return ({ dispatch, getState }) => (next) => (action) =>
+    typeof action === "function" ? (action as Thunk<S, A, unknown>)(dispatch, getState) : next(action);
+}
+
+function logger<S, A extends AnyAction>(log: (...args: unknown[]) => void = console.log): Middleware<S, A> {
+  return ({ getState }) => (next) => (action) => {
+    if (typeof action === "function") return next(action);
+    const result = next(action);
+    log(`[store] ${(action as AnyAction).type}`, getState());
+    return result;
+  };
+}
+
+// ===== SELECTORS =====
+
+type Selector<S, R> = (state: S) => R;
+
+// Recomputes only when one of the input selectors returns a new value (compared with Object.is)
+// `V` is the tuple of input results, which `combine` receives in order
+function createSelector<S, const V extends readonly [unknown, ...unknown[]], R>(
+  inputs: { readonly [K in keyof V]: Selector<S, V[K]> } & readonly Selector<S, unknown>[],
+  combine: (...values: V) => R
+): Selector<S, R> & { recomputations: () => number } {
+  let last: { args: unknown[]; result: R } | undefined;
+  let count = 0;
+  const selector = (state: S) => {
+    const args = inputs.map((input: Selector<S, unknown>) => input(state));
+    if (last && args.every((arg, i) => Object.is(arg, last!.args[i]))) return last.result;
+    count++;
+    last = { args, result: combine(...(args as unknown as V)) };
+    return last.result;
+  };
+  return Object.assign(selector, { recomputations: () => count });
+}
+
+export { createActions, createReducer, createStore, createSelector, thunk, logger };
+
+// ===== USAGE EXAMPLE =====
+
+if (import.meta.filename === process.argv[1]) {
+  // The `Action` union from conditional-types.ts drives a small user store
+  type UserState = { loading: string | null; users: ActionPayload<Extract<Action, { type: "SAVE" }>>[] };
+
+  const userActions = createActions<Action>(["FETCH", "SAVE", "DELETE"]);
+
+  const userReducer = createReducer<UserState, Action>({
+    FETCH: (state, { payload }) => ({ ...state, loading: payload }),
+    SAVE: (state, { payload }) => ({ loading: null, users: [...state.users, payload] }),
+    DELETE: (state, { payload }) => ({ ...state, users: state.users.filter((u) => u.id !== payload) }),
+    // Leaving out DELETE would fail: Property 'DELETE' is missing
+  });
+
+  const logLines: string[] = [];
+
+  const store = createStore(userReducer, { loading: null, users: [] }, {
+    middleware: [thunk(), logger((line) => logLines.push(String(line)))],
+    historyLimit: 20,
+  });
+
+  const selectUsers = (s: UserState) => s.users;
+  const selectActiveNames = createSelector([selectUsers], (users) => users.filter((u) => u.active).map((u) => u.name));
+
+  store.dispatch(userActions.FETCH("/users"));
+  store.dispatch(userActions.SAVE({ id: 1, name: "Ada", email: "ada@example.com", active: true }));
+  store.dispatch(userActions.SAVE({ id: 2, name: "Linus", email: "linus@example.com", active: false }));
+  // store.dispatch(userActions.DELETE("2")); // Error: payload must be a number
+
+  // Thunks get dispatch and getState; their return value comes back from dispatch
+  const removeInactive: Thunk<UserState, Action, number> = (dispatch, getState) => {
+    const inactive = getState().users.filter((u) => !u.active);
+    inactive.forEach((u) => dispatch(userActions.DELETE(u.id)));
+    return inactive.length;
+  };
+  console.log("removed:", store.dispatch(removeInactive)); // removed: 1
+
+  console.log(selectActiveNames(store.getState()), selectActiveNames(store.getState())); // [ 'Ada' ] [ 'Ada' ]
+  console.log("recomputations:", selectActiveNames.recomputations()); // 1
+
+  // Time travel: step back to before the thunk ran
+  store.history.undo();
+  console.log(store.getState().users.length, store.history.index); // 2 3
+  store.history.jumpTo(0);
+  console.log(store.getState()); // { loading: null, users: [] }
+  store.history.redo();
+  console.log(logLines); // [ '[store] FETCH', '[store] SAVE', '[store] SAVE', '[store] DELETE' ]
+
+  // `ReduxActionType` strings ("auth/LOAD", ...) as action types
+  type AuthAction = Extract<
+    | { type: "auth/LOAD" }
+    | { type: "auth/SUCCESS"; payload: { token: string } }
+    | { type: "auth/FAILURE"; payload: string },
+    { type: ReduxActionType }
+  >;
+
+  const auth = createActions<AuthAction>(["auth/LOAD", "auth/SUCCESS", "auth/FAILURE"]);
+  const authStore = createStore(
+    createReducer<{ token: string | null; error: string | null }, AuthAction>({
+      "auth/LOAD": (state) => ({ ...state, error: null }),
+      "auth/SUCCESS": (_, { payload }) => ({ token: payload.token, error: null }),
+      "auth/FAILURE": (_, { payload }) => ({ token: null, error: payload }),
+    }),
+    { token: null, error: null }
+  );
+
+  authStore.dispatch(auth["auth/LOAD"]());
+  authStore.dispatch(auth["auth/SUCCESS"]({ token: "abc" }));
+  console.log(authStore.getState()); // { token: 'abc', error: null }
+}
+
+// ===== KEY CONCEPTS =====
+
+/*
+ * 1. Everything derives from the action union:
+ *    - ActionCreators<A> gives one creator per `type`, typed by its payload
+ *    - createActions takes the list of types, checked against the union
+ *    - ReducerMap<S, A> must handle every `type` with the narrowed action
+ *
+ * 2. Middleware wraps dispatch:
+ *    - thunk() lets dispatch take (dispatch, getState) => R functions
+ *    - logger() reports each action with the resulting state
+ *
+ * 3. createSelector memoizes on input selector results, so derived
+ *    arrays keep their identity until the inputs change
+ *
+ * 4. Time travel:
+ *    - every dispatch appends { action, state } to a bounded history
+ *    - undo / redo / jumpTo move between entries and notify subscribers
+ *    - dispatching after an undo drops the redo branch
+ */
@@ -0,0 +1,303 @@
+/**
+ * CSS-in-TS Style Builder
+ * Consumes `CSSUnit`, `CSSValue` and `Spacing` (template-literal-types.ts): style rules
+ * only accept known properties, lengths must be `CSSValue`s and colors `HexColor`s.
+ * Rules get deterministic hashed class names and serialize to a stylesheet, with
+ * optional px -> rem conversion and media-query helpers.
+ */
+
+import type { CSSUnit, CSSValue, HexColor, IsHexColor, Spacing } from "./template-literal-types.js";
+
+// ===== VALUE TYPES =====
+
+type Length = CSSValue<CSSUnit> | "0" | "auto";
+
+// One to four lengths, as in `margin: 0 auto` or `padding: 4px 8px 4px 8px`
+type BoxValue = Spacing | "0" | "auto" | `${Length} ${Length}` | `${Length} ${Length} ${Length}` | `${Length} ${Length} ${Length} ${Length}`;
+
+type LengthProperty =
+  | "width" | "height" | "minWidth" | "maxWidth" | "minHeight" | "maxHeight"
+  | "top" | "right" | "bottom" | "left"
+  | "fontSize" | "lineHeight" | "letterSpacing" | "gap" | "borderRadius" | "borderWidth";
+
+type BoxProperty = "margin" | "padding";
+
+type ColorProperty = "color" | "backgroundColor" | "borderColor" | "outlineColor";
+
+type KeywordProperties = {
+  display?: "block" | "inline" | "inline-block" | "flex" | "grid" | "none";
+  position?: "static" | "relative" | "absolute" | "fixed" | "sticky";
+  flexDirection?: "row" | "column" | "row-reverse" | "column-reverse";
+  justifyContent?: "flex-start" | "flex-end" | "center" | "space-between" | "space-around";
+  alignItems?: "flex-start" | "flex-end" | "center" | "stretch" | "baseline";
+  fontWeight?: 400 | 500 | 600 | 700 | "normal" | "bold";
+  borderStyle?: "none" | "solid" | "dashed" | "dotted";
+  cursor?: "auto" | "pointer" | "default" | "not-allowed";
+  opacity?: number;
+};
+
+type Declarations = KeywordProperties &
+  { [P in LengthProperty]?: Length } &
+  { [P in BoxProperty]?: BoxValue } &
+  // Literals are narrowed to HexColor digit by digit in CheckRule
+  { [P in ColorProperty]?: HexColor | `#${string}` };
+
+type Pseudo = "hover" | "focus" | "active" | "disabled" | "first-child" | "last-child";
+
+type MediaQuery = `@media ${string}`;
+
+// Declarations plus nested pseudo-class and media-query blocks
+type StyleRule = Declarations & {
+  [P in `&:${Pseudo}`]?: Declarations;
+} & {
+  [M in MediaQuery]?: Declarations & { [P in `&:${Pseudo}`]?: Declarations };
+};
+
+type RuleKey = keyof Declarations | `&:${Pseudo}` | MediaQuery;
+
+// Also rejects unknown properties, which a generic `S extends StyleRule` would let through
+type CheckRule<T> = {
+  [K in keyof T]: K extends RuleKey
+    ? K extends ColorProperty
+      ? IsHexColor<T[K]> extends true ? T[K] : `Invalid HexColor for ${K}: expected "#RRGGBB" in uppercase`
+      : T[K] extends object ? CheckRule<T[K]> : T[K]
+    : never;
+};
+
+type SheetOptions = {
+  // Root font size used for px <-> rem conversion
+  baseFontSize?: number;
+  // Rewrite every px length as rem when serializing
+  pxToRem?: boolean;
+  // Prefix for generated class names
+  prefix?: string;
+};
+
+export type { Length, BoxValue, Declarations, StyleRule, MediaQuery, SheetOptions };
+
+class StyleError extends Error {
+  constructor(property: string, value: unknown, expected: string) {
+    super(`Invalid value for "${property}": ${JSON.stringify(value)} (expected ${expected})`);
+    this.name = "StyleError";
+  }
+}
+
+// ===== UNITS AND MEDIA QUERIES =====
+
+const trim = (value: number) => String(Math.round(value * 10_000) / 10_000);
+
+function pxToRem(value: CSSValue<"px">, baseFontSize = 16): CSSValue<"rem"> {
+  return `${trim(parseFloat(value) / baseFontSize)}rem` as CSSValue<"rem">;
+}
+
+function remToPx(value: CSSValue<"rem">, baseFontSize = 16): CSSValue<"px"> {
+  return `${trim(parseFloat(value) * baseFontSize)}px` as CSSValue<"px">;
+}
+
+const media = {
+  minWidth: <const W extends CSSValue<CSSUnit>>(width: W) => `@media (min-width: ${width})` as const,
+  maxWidth: <const W extends CSSValue<CSSUnit>>(width: W) => `@media (max-width: ${width})` as const,
+  between: <const A extends CSSValue<CSSUnit>, const B extends CSSValue<CSSUnit>>(min: A, max: B) =>
+    `@media (min-width: ${min}) and (max-width: ${max})` as const,
+  prefersDark: "@media (prefers-color-scheme: dark)",
+  reducedMotion: "@media (prefers-reduced-motion: reduce)",
+} as const;
+
+// { sm: "640px" } -> { sm: "@media (min-width: 640px)" }
+function breakpoints<const B extends Record<string, CSSValue<CSSUnit>>>(widths: B): { [K in keyof B]: `@media (min-width: ${B[K]})` } {
+  return Object.fromEntries(Object.entries(widths).map(([name, width]) => [name, media.minWidth(width)])) as {
+    [K in keyof B]: `@media (min-width: ${B[K]})`;
+  };
+}
+
+// ===== SERIALIZATION =====
+
+const LENGTH = /^-?(\d+|\d*\.\d+)(px|em|rem|%)$/;
+const HEX = /^#[0-9A-F]{6}$/;
+const COLOR_PROPERTIES = new Set<string>(["color", "backgroundColor", "borderColor", "outlineColor"]);
+const BOX_PROPERTIES = new Set<string>(["margin", "padding"]);
+const LENGTH_PROPERTIES = new Set<string>([
+  "width", "height", "minWidth", "maxWidth", "minHeight", "maxHeight", "top", "right", "bottom", "left",
+  "fontSize", "lineHeight", "letterSpacing", "gap", "borderRadius", "borderWidth",
+]);
+
+const kebab = (property: string) => property.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+
+const isLength = (token: string) => token === "0" || token === "auto" || LENGTH.test(token);
+
+// Runtime counterpart of the value types, for rules built from non-literal data
+function validate(property: string, value: unknown) {
+  if (COLOR_PROPERTIES.has(property) && !(typeof value === "string" && HEX.test(value))) {
+    throw new StyleError(property, value, "a HexColor such as #FF5733");
+  }
+  if (LENGTH_PROPERTIES.has(property) && !(typeof value === "string" && isLength(value))) {
+    throw new StyleError(property, value, "a length such as 12px or 1.5rem");
+  }
+  if (BOX_PROPERTIES.has(property)) {
+    const tokens = typeof value === "string" ? value.split(" ") : [];
+    if (tokens.length < 1 || tokens.length > 4 || !tokens.every(isLength)) {
+      throw new StyleError(property, value, "one to four lengths");
+    }
+  }
+}
+
+// FNV-1a, 32-bit: stable across runs and platforms, so class names are deterministic
+function hash(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+}
+
+type Block = { media?: string; selector: string; body: [property: string, value: string][] };
+
+// ===== STYLESHEET =====
+
+class StyleSheet {
+  private blocks: Block[] = [];
+  private classes = new Map<string, string>();
+  private baseFontSize: number;
+
+  constructor(private options: SheetOptions = {}) {
+    this.baseFontSize = options.baseFontSize ?? 16;
+  }
+
+  // Returns the class name for `rule`; the same rule always maps to the same class
+  style<const S extends StyleRule>(rule: S & CheckRule<S>, label?: string): string {
+    const key = this.canonical(rule);
+    const existing = this.classes.get(key + (label ?? ""));
+    if (existing) return existing;
+
+    const className = `${label ?? this.options.prefix ?? "css"}-${hash(key)}`;
+    this.collect(rule, `.${className}`);
+    this.classes.set(key + (label ?? ""), className);
+    return className;
+  }
+
+  toString({ pretty = false } = {}): string {
+    const nl = pretty ? "\n" : "";
+    const indent = (depth: number) => (pretty ? "  ".repeat(depth) : "");
+    const renderBlock = (block: Block, depth: number) =>
+      `${indent(depth)}${block.selector}${pretty ? " " : ""}{${nl}` +
+      block.body.map(([p, v]) => `${indent(depth + 1)}${p}:${pretty ? " " : ""}${v};`).join(nl) +
+      `${nl}${indent(depth)}}`;
+
+    // Plain rules first, then each media query once, in first-use order
+    const plain = this.blocks.filter((b) => !b.media).map((b) => renderBlock(b, 0));
+    const queries = [...new Set(this.blocks.flatMap((b) => (b.media ? [b.media] : [])))].map(
+      (query) =>
+        `${query}${pretty ? " " : ""}{${nl}` +
+        this.blocks
+          .filter((b) => b.media === query)
+          .map((b) => renderBlock(b, 1))
+          .join(nl) +
+        `${nl}}`
+    );
+    return [...plain, ...queries].join(nl);
+  }
+
+  // Key order doesn't matter: { a, b } and { b, a } hash to the same class
+  private canonical(rule: object): string {
+    const sortKeys = (value: unknown): unknown =>
+      typeof value === "object" && value !== null
+        ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : 1)).map(([k, v]) => [k, sortKeys(v)]))
+        : value;
+    return JSON.stringify(sortKeys(rule));
+  }
+
+  private collect(rule: object, selector: string, mediaQuery?: string) {
+    const body: Block["body"] = [];
+    const nested: [string, object][] = [];
+    for (const [property, value] of Object.entries(rule)) {
+      if (value === undefined) continue;
+      if (property.startsWith("&") || property.startsWith("@media")) {
+        nested.push([property, value]);
+        continue;
+      }
+      validate(property, value);
+      body.push([kebab(property), this.convert(String(value))]);
+    }
+    if (body.length) this.blocks.push({ selector, body, ...(mediaQuery ? { media: mediaQuery } : {}) });
+    for (const [key, value] of nested) {
+      if (key.startsWith("&")) this.collect(value, selector + key.slice(1), mediaQuery);
+      else this.collect(value, selector, key);
+    }
+  }
+
+  private convert(value: string): string {
+    if (!this.options.pxToRem) return value;
+    return value.replace(/(-?(?:\d+|\d*\.\d+))px\b/g, (_, n: string) => pxToRem(`${Number(n)}px`, this.baseFontSize));
+  }
+}
+
+export { StyleSheet, pxToRem, remToPx, media, breakpoints, StyleError };
+
+// ===== USAGE EXAMPLE =====
+
+if (import.meta.filename === process.argv[1]) {
+  const bp = breakpoints({ md: "768px", lg: "1024px" });
+  // bp.md: "@media (min-width: 768px)"
+
+  const sheet = new StyleSheet({ pxToRem: true, prefix: "ui" });
+
+  const button = sheet.style(
+    {
+      display: "inline-block",
+      padding: "8px 16px",
+      fontSize: "14px",
+      color: "#FFFFFF",
+      backgroundColor: "#3366CC",
+      borderRadius: "4px",
+      "&:hover": { backgroundColor: "#254E9E" },
+      "&:disabled": { opacity: 0.5, cursor: "not-allowed" },
+      [bp.md]: { fontSize: "16px", padding: "10px 20px" },
+    },
+    "button"
+  );
+  const card = sheet.style({ padding: "24px", backgroundColor: "#F5F5F5", [media.prefersDark]: { backgroundColor: "#1E1E1E" } });
+
+  // Same declarations in another order -> same class, emitted once
+  const again = sheet.style({ backgroundColor: "#F5F5F5", padding: "24px", [media.prefersDark]: { backgroundColor: "#1E1E1E" } });
+  console.log(button, card, card === again);
+
+  // sheet.style({ color: "#fff" });          // Error: Invalid HexColor for color
+  // sheet.style({ fontSize: "large" });      // Error: not a CSSValue
+  // sheet.style({ colour: "#FFFFFF" });      // Error: unknown property
+
+  console.log(sheet.toString({ pretty: true }));
+  // .button-1si4rxf {
+  //   display: inline-block;
+  //   padding: 0.5rem 1rem;
+  //   ...
+  // }
+  // @media (min-width: 768px) { ... }
+
+  console.log(pxToRem("24px"), remToPx("1.5rem", 10)); // 1.5rem 15px
+
+  try {
+    const userColor: string = "tomato";
+    sheet.style({ color: userColor as HexColor });
+  } catch (e) {
+    console.log((e as Error).message); // Invalid value for "color": "tomato" (expected a HexColor such as #FF5733)
+  }
+}
+
+// ===== KEY CONCEPTS =====
+
+/*
+ * 1. Typed declarations:
+ *    - lengths are CSSValue<CSSUnit>, margin/padding take one to four of them
+ *    - color literals are checked digit by digit against HexColor's HexDigit
+ *    - keyword properties accept only their CSS keywords
+ *
+ * 2. Nesting: "&:hover"-style pseudo-classes and "@media ..." blocks
+ *
+ * 3. Deterministic class names:
+ *    - FNV-1a hash of the rule with sorted keys
+ *    - identical rules share one class and one set of emitted blocks
+ *
+ * 4. Serialization groups media queries after plain rules and can
+ *    convert px to rem from a base font size
+ */
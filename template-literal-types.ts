@@ -67,10 +67,10 @@ type EventHandlers = {
 // }
 
 // Example 5: HTTP method combinations
-type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
 type ResourceName = "users" | "posts" | "comments";
 type ApiRoute = `/${Lowercase<ResourceName>}`;
-type ApiEndpointType = `${HttpMethod} ${ApiRoute}`;
+export type ApiEndpointType = `${HttpMethod} ${ApiRoute}`;
 // Result: "GET /users" | "GET /posts" | ... | "DELETE /comments"
 
 // ===== TEMPLATE LITERALS WITH CONDITIONAL TYPES =====
@@ -85,7 +85,8 @@ type ChangeEvent = ExtractEventType<"onChange">;
 // Result: "Change"
 
 // Example 7: Parse query parameters
-type ParseQuery<T extends string> = T extends `${infer Key}=${infer Value}` 
+// (query.ts extends this to whole query strings, at the type level and at runtime)
+export type ParseQuery<T extends string> = T extends `${infer Key}=${infer Value}` 
   ? { key: Key; value: Value }
   : never;
 
@@ -95,10 +96,11 @@ type Query1 = ParseQuery<"name=John">;
 // ===== PRACTICAL EXAMPLES =====
 
 // Example 8: CSS class name generator
-type CSSUnit = "px" | "em" | "rem" | "%";
-type CSSValue<Unit extends CSSUnit = "px"> = `${number}${Unit}`;
+// (style.ts builds typed, hashed style rules from these)
+export type CSSUnit = "px" | "em" | "rem" | "%";
+export type CSSValue<Unit extends CSSUnit = "px"> = `${number}${Unit}`;
 
-type Spacing = `${CSSValue<"px">}` | `${CSSValue<"rem">}`;
+export type Spacing = `${CSSValue<"px">}` | `${CSSValue<"rem">}`;
 // Result allows various combinations like "10px", "2rem", etc.
 
 // Example 9: Database column naming conventions
@@ -111,7 +113,7 @@ type DatabaseMethod<T extends TableName = TableName> =
 // Example 10: Type-safe API response keys
 type EndpointMethod = "GET" | "POST" | "PUT" | "DELETE";
 type EndpointPath = "/users" | "/posts" | "/comments";
-type ApiKey = `${EndpointMethod}:${EndpointPath}`;
+export type ApiKey = `${EndpointMethod}:${EndpointPath}`;
 // Result: "GET:/users" | "POST:/users" | ... | "DELETE:/comments"
 
 const apiCache: Partial<Record<ApiKey, unknown>> = {
@@ -127,7 +129,7 @@ type FormField = `field_${FormFieldType}_${"input" | "label" | "error"}`;
 // Example 12: Redux action type constants
 type Feature = "auth" | "user" | "settings";
 type Action = "LOAD" | "SUCCESS" | "FAILURE";
-type ReduxActionType = `${Feature}/${Action}`;
+export type ReduxActionType = `${Feature}/${Action}`;
 // Result: "auth/LOAD" | "auth/SUCCESS" | "auth/FAILURE" | ...
 
 // ===== EXTRACTING TYPES FROM STRINGS =====
@@ -135,24 +137,35 @@ type ReduxActionType = `${Feature}/${Action}`;
 // Example 13: Parse path parameters
 type Route = "/users/:id" | "/posts/:id/comments/:commentId" | "/settings";
 
-type ExtractParams<T extends string> = 
-  T extends `${infer Start}:${infer Param}/${infer Rest}` 
-    ? { param: Param } & ExtractParams<`/${Rest}`>
-    : T extends `${infer Start}:${infer Param}`
-    ? { param: Param }
-    : {};
+// Each segment contributes its own key: ":id" is required, ":id?" optional, "*" a catch-all
+type SegmentParams<S extends string> =
+  S extends `:${infer Name}?` ? { [K in Name]?: string }
+  : S extends `:${infer Name}` ? { [K in Name]: string }
+  : S extends "*" ? { "*": string }
+  : {};
+
+type MergeParams<T> = { [K in keyof T]: T[K] };
+
+export type ExtractParams<T extends string> = MergeParams<
+  T extends `${infer Segment}/${infer Rest}`
+    ? SegmentParams<Segment> & ExtractParams<Rest>
+    : SegmentParams<T>
+>;
 
 type UserRoute = ExtractParams<"/users/:id">;
-// Result: { param: "id" }
+// Result: { id: string }
+
+type CommentRoute = ExtractParams<"/posts/:id/comments/:commentId">;
+// Result: { id: string; commentId: string }
 
 // Example 14: Parse version strings
-type Version = `${number}.${number}.${number}`;
+export type Version = `${number}.${number}.${number}`;
 type ValidVersions = "1.0.0" | "2.5.3" | "0.1.2";
 
 // Example 15: URL scheme validation
-type URLScheme = "http" | "https" | "ftp";
+export type URLScheme = "http" | "https" | "ftp";
 type Domain = string;
-type ValidURL = `${URLScheme}://${Domain}`;
+export type ValidURL = `${URLScheme}://${Domain}`;
 
 const myUrl: ValidURL = "https://example.com";
 // const badUrl: ValidURL = "example.com"; // Error!
@@ -197,8 +210,8 @@ type EventEmitterMethods = {
 // ===== ADVANCED PATTERNS =====
 
 // Example 19: Recursive path building
-type PathSegment = string;
-type BuildPath<T extends PathSegment[]> = 
+export type PathSegment = string;
+export type BuildPath<T extends PathSegment[]> = 
   T extends [infer First extends string, ...infer Rest extends PathSegment[]]
     ? `/${First}${BuildPath<Rest> extends `/${string}` ? BuildPath<Rest> : ""}`
     : "";
@@ -213,10 +226,12 @@ interface Config {
   debugMode: boolean;
 }
 
-type ConfigEnvVars = {
-  [K in keyof Config as `APP_${Uppercase<string & K>}`]: Config[K];
+export type EnvVars<T> = {
+  [K in keyof T as `APP_${Uppercase<string & K>}`]: T[K];
 };
 
+type ConfigEnvVars = EnvVars<Config>;
+
 const envConfig: ConfigEnvVars = {
   APP_APIURL: "https://api.example.com",
   APP_APIKEY: "secret-key",
@@ -224,7 +239,8 @@ const envConfig: ConfigEnvVars = {
 };
 
 // Example 21: Narrow string literals with patterns
-type HTMLElement = 
+// (html.ts renders typed element trees restricted to these tags)
+export type HTMLElement = 
   | "div"
   | "span"
   | "p"
@@ -232,19 +248,20 @@ type HTMLElement =
   | "input"
   | "form";
 
-type HTMLTag<T extends HTMLElement = HTMLElement> = `<${T}>`;
-type HTMLTagWithAttribute<T extends HTMLElement = HTMLElement> = `<${T} class="${string}">`;
+export type HTMLTag<T extends HTMLElement = HTMLElement> = `<${T}>`;
+export type HTMLTagWithAttribute<T extends HTMLElement = HTMLElement> = `<${T} class="${string}">`;
 
 // Example 22: State machine event types
-type State = "idle" | "loading" | "error" | "success";
+export type State = "idle" | "loading" | "error" | "success";
 type EventPrefix = `${State}:`;
-type StateEvent = EventPrefix;
+export type StateEvent = EventPrefix;
 
 // ===== PRACTICAL USE CASE: VALIDATION =====
 
 // Example 23: Email validation
+// (email-url.ts parses emails and URLs properly into branded types)
 type EmailDomain = string;
-type Email = `${string}@${EmailDomain}`;
+export type Email = `${string}@${EmailDomain}`;
 
 function validateEmail(email: Email): boolean {
   return true;
@@ -254,17 +271,37 @@ const validEmail: Email = "user@example.com";
 // const invalidEmail: Email = "userexample.com"; // Error!
 
 // Example 24: Hex color validation
-type HexDigit = "0" | "1" | "2" | "3" | "4" | "5" | "6" | "7" | "8" | "9" | "A" | "B" | "C" | "D" | "E" | "F";
-type HexColor = `#${HexDigit}${HexDigit}${HexDigit}${HexDigit}${HexDigit}${HexDigit}`;
+// (color.ts parses every CSS hex/rgb()/hsl() form; isHexColor narrows to this type)
+export type HexDigit = "0" | "1" | "2" | "3" | "4" | "5" | "6" | "7" | "8" | "9" | "A" | "B" | "C" | "D" | "E" | "F";
+
+// Six HexDigits as one union would have 16^6 members, more than the compiler can
+// represent (TS2590), so literals are checked digit by digit instead
+export type IsHexColor<S> = S extends HexColor
+  ? true
+  : S extends `#${infer A}${infer B}${infer C}${infer D}${infer E}${infer F}`
+    ? [A, B, C, D, E, F] extends HexDigit[] ? true : false
+    : false;
+
+// "#" plus six uppercase hex digits, branded once checked: a plain `const c: HexColor = "#FF5733"`
+// can't be verified without the oversized union, so literals go through hexColor() and other
+// strings through color.ts (isHexColor, or toHexColor for lowercase/short/alpha forms)
+declare const hexColorBrand: unique symbol;
+export type HexColor = `#${string}` & { readonly [hexColorBrand]: true };
+
+function hexColor<S extends string>(color: S & (IsHexColor<S> extends true ? unknown : never)): HexColor {
+  return color as string as HexColor;
+}
 
-const myColor: HexColor = "#FF5733";
-// const badColor: HexColor = "#FFF"; // Error!
+const myColor: HexColor = hexColor("#FF5733");
+// const badColor: HexColor = hexColor("#FFF"); // Error!
+// const notAColor: HexColor = "#FF5733";       // Error! Only checked colors are HexColors
 
 // Example 25: Semantic versioning
+// (semver.ts parses and validates these properly, returning a branded SemVer)
 type Major = string; // Should be digit(s)
 type Minor = string;
 type Patch = string;
-type SemanticVersion = `${Major}.${Minor}.${Patch}`;
+export type SemanticVersion = `${Major}.${Minor}.${Patch}`;
 
 const version: SemanticVersion = "1.2.3";
 
@@ -0,0 +1,78 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ApiCache } from "../api-cache.js";
+
+type Responses = {
+  "GET:/users": string[];
+  "GET:/posts": string[];
+};
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+test("concurrent misses share one load", async () => {
+  const cache = new ApiCache<Responses>();
+  let loads = 0;
+  const loader = async () => [`user ${++loads}`];
+  const [a, b] = await Promise.all([cache.fetch("GET:/users", loader), cache.fetch("GET:/users", loader)]);
+  assert.equal(a, b);
+  assert.equal(loads, 1);
+  assert.deepEqual(cache.get("GET:/users"), ["user 1"]);
+});
+
+test("invalidating one key doesn't affect loads of other keys", async () => {
+  const cache = new ApiCache<Responses>();
+  const users = deferred<string[]>();
+  let userLoads = 0;
+  const loadUsers = () => (userLoads++, users.promise);
+
+  const first = cache.fetch("GET:/users", loadUsers);
+  cache.delete("GET:/posts");
+  cache.recordWrite("POST:/posts");
+  cache.invalidateTag("feed");
+  const second = cache.fetch("GET:/users", loadUsers);
+  users.resolve(["ada"]);
+
+  assert.equal(await first, await second);
+  assert.equal(userLoads, 1);
+  assert.deepEqual(cache.get("GET:/users"), ["ada"]);
+});
+
+test("a load invalidated while in flight is not cached", async () => {
+  const cache = new ApiCache<Responses>();
+  const old = deferred<string[]>();
+  const pending = cache.fetch("GET:/users", () => old.promise, { tags: ["people"] });
+  cache.invalidateTag("people");
+
+  // A miss after the invalidation starts a fresh load instead of joining the stale one
+  const fresh = await cache.fetch("GET:/users", async () => ["new"]);
+  old.resolve(["old"]);
+  assert.deepEqual(await pending, ["old"]);
+  assert.deepEqual(fresh, ["new"]);
+  assert.deepEqual(cache.get("GET:/users"), ["new"]);
+});
+
+test("writes invalidate entries tagged with their path", () => {
+  const cache = new ApiCache<Responses>();
+  cache.set("GET:/users", ["ada"]);
+  cache.set("GET:/posts", ["hello"]);
+  assert.equal(cache.recordWrite("POST:/users"), 1);
+  assert.equal(cache.get("GET:/users"), undefined);
+  assert.deepEqual(cache.get("GET:/posts"), ["hello"]);
+});
+
+test("expired entries are served stale while they refresh", async () => {
+  let clock = 0;
+  const cache = new ApiCache<Responses>({ defaultTtlMs: 10, staleWhileRevalidateMs: 100, now: () => clock });
+  cache.set("GET:/users", ["old"]);
+  clock = 50;
+  const refreshed = deferred<string[]>();
+  assert.deepEqual(await cache.fetch("GET:/users", () => refreshed.promise), ["old"]);
+  refreshed.resolve(["new"]);
+  await refreshed.promise;
+  await Promise.resolve();
+  assert.deepEqual(cache.get("GET:/users"), ["new"]);
+});
@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ApiClientError, createClient, fakeTransport } from "../api-client.js";
+import type { TransportResponse } from "../api-client.js";
+
+type Contract = {
+  "GET /items": { response: string[] };
+  "POST /items": { body: { name: string }; response: { name: string } };
+  "DELETE /items/:id": { response: undefined };
+};
+
+const ok = (data: unknown): TransportResponse => ({ status: 200, body: JSON.stringify({ status: "success", data }) });
+const busy: TransportResponse = { status: 503, body: JSON.stringify({ status: "error", error: "busy" }) };
+
+async function rejection(promise: Promise<unknown>): Promise<ApiClientError> {
+  try {
+    await promise;
+  } catch (e) {
+    assert.ok(e instanceof ApiClientError);
+    return e;
+  }
+  assert.fail("expected the call to reject");
+}
+
+test("aborting during backoff rejects with an aborted ApiClientError", async () => {
+  const client = createClient<Contract>({
+    baseUrl: "http://test",
+    retry: { attempts: 3, backoffMs: 10_000 },
+    transport: fakeTransport({ "GET /items": () => busy }),
+  });
+  const controller = new AbortController();
+  const pending = client.call("GET /items", { signal: controller.signal });
+  setTimeout(() => controller.abort(), 10);
+  const error = await rejection(pending);
+  assert.equal(error.kind, "aborted");
+});
+
+test("retries idempotent methods but not POST unless opted in", async () => {
+  let gets = 0;
+  let posts = 0;
+  const client = createClient<Contract>({
+    baseUrl: "http://test",
+    retry: { attempts: 2, backoffMs: 1 },
+    transport: fakeTransport({
+      "GET /items": () => (++gets === 1 ? busy : ok(["a"])),
+      "POST /items": (req) => (++posts === 1 ? busy : ok(JSON.parse(req.body ?? "{}"))),
+    }),
+  });
+
+  assert.deepEqual(await client.call("GET /items"), ["a"]);
+  assert.equal(gets, 2);
+
+  const error = await rejection(client.call("POST /items", { body: { name: "x" } }));
+  assert.equal(error.status, 503);
+  assert.equal(posts, 1);
+
+  const created = await client.call("POST /items", { body: { name: "y" }, retry: { retryNonIdempotent: true } });
+  assert.deepEqual(created, { name: "y" });
+});
+
+test("empty and malformed bodies", async () => {
+  let reply: TransportResponse = { status: 204, body: "" };
+  const client = createClient<Contract>({
+    baseUrl: "http://test",
+    transport: fakeTransport({ "DELETE /items/:id": () => reply }),
+  });
+  const remove = () => client.call("DELETE /items/:id", { params: { id: "1" } });
+
+  assert.equal(await remove(), undefined);
+
+  reply = { status: 200, body: "null" };
+  assert.equal((await rejection(remove())).kind, "parse");
+
+  reply = { status: 502, body: "<html>Bad gateway</html>" };
+  const error = await rejection(remove());
+  assert.equal(error.kind, "http");
+  assert.equal(error.status, 502);
+
+  reply = { status: 404, body: "" };
+  assert.equal((await rejection(remove())).kind, "http");
+});
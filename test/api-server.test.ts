@@ -0,0 +1,80 @@
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { createApiServer, HttpError, listen } from "../api-server.js";
+import { schema } from "../schema.js";
+
+type Contract = {
+  "GET /posts": { query: "sort=asc" | "sort=desc"; response: string[] };
+  "POST /posts": { body: { name: string }; response: { name: string } };
+  "GET /posts/:id": { response: { id: string } };
+  "GET /comments": { response: unknown };
+};
+
+const server = createApiServer<Contract>(
+  {
+    "GET /posts": ({ query }) => (query.sort === "desc" ? ["b", "a"] : ["a", "b"]),
+    "POST /posts": ({ body }) => ({ name: body.name }),
+    "GET /posts/:id": ({ params }) => {
+      if (params.id === "missing") throw new HttpError(404, "no such item");
+      return { id: params.id };
+    },
+    "GET /comments": () => ({ count: 1n }),
+  },
+  {
+    "GET /posts": { query: schema.object({ sort: schema.union(schema.literal("asc"), schema.literal("desc")).optional() }) },
+    "POST /posts": { body: schema.object({ name: schema.string() }) },
+  }
+);
+
+let baseUrl = "";
+before(async () => {
+  baseUrl = await listen(server);
+});
+after(() => server.close());
+
+async function request(path: string, init: RequestInit = {}) {
+  const res = await fetch(baseUrl + path, { ...init, signal: AbortSignal.timeout(2000) });
+  return { status: res.status, allow: res.headers.get("allow"), body: await res.json() };
+}
+
+test("serves typed handlers with decoded params and validated input", async () => {
+  assert.deepEqual(await request("/posts?sort=desc"), { status: 200, allow: null, body: { status: "success", data: ["b", "a"] } });
+  assert.deepEqual((await request("/posts/a%20b")).body.data, { id: "a b" });
+  const created = await request("/posts", { method: "POST", body: JSON.stringify({ name: "pen", extra: true }) });
+  assert.deepEqual(created, { status: 201, allow: null, body: { status: "success", data: { name: "pen" } } });
+});
+
+test("rejects bodies and queries that don't match the contract with 400", async () => {
+  const empty = await request("/posts", { method: "POST" });
+  assert.equal(empty.status, 400);
+  assert.match(empty.body.error, /Invalid request body/);
+
+  const wrongType = await request("/posts", { method: "POST", body: JSON.stringify({ name: 1 }) });
+  assert.equal(wrongType.status, 400);
+
+  const badQuery = await request("/posts?sort=sideways");
+  assert.equal(badQuery.status, 400);
+  assert.match(badQuery.body.error, /Invalid query: sort/);
+
+  const badJson = await request("/posts", { method: "POST", body: "{" });
+  assert.deepEqual(badJson.body, { status: "error", error: "Request body is not valid JSON" });
+});
+
+test("malformed percent-encoding is a 400, not a 500", async () => {
+  assert.equal((await request("/posts/%E0%A4%A")).status, 400);
+});
+
+test("unknown paths are 404 and other methods 405 with Allow", async () => {
+  assert.equal((await request("/nope")).status, 404);
+  const wrongMethod = await request("/posts/1", { method: "DELETE" });
+  assert.deepEqual([wrongMethod.status, wrongMethod.allow], [405, "GET"]);
+  assert.deepEqual((await request("/posts/missing")).body, { status: "error", error: "no such item" });
+});
+
+test("a response JSON can't encode becomes a 500 instead of a hung request", async () => {
+  assert.deepEqual(await request("/comments"), {
+    status: 500,
+    allow: null,
+    body: { status: "error", error: "Internal Server Error" },
+  });
+});
@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { ColorError, contrastRatio, isHexColor, meetsContrast, parseColor, toHex, toHexColor } from "../color.js";
+
+test("hex colors parse in every length and case", () => {
+  assert.deepEqual(parseColor("#f80"), { r: 255, g: 136, b: 0, a: 1 });
+  assert.deepEqual(parseColor("#FF8800"), parseColor("#f80"));
+  assert.deepEqual(parseColor("#f808"), { r: 255, g: 136, b: 0, a: 0.533 });
+  assert.deepEqual(parseColor("#ff880080"), { r: 255, g: 136, b: 0, a: 0.502 });
+  assert.throws(() => parseColor("#"), ColorError);
+  assert.throws(() => parseColor("#ff880"), /expected 3, 4, 6 or 8 hex digits/);
+  assert.throws(() => parseColor("#gg8800"), ColorError);
+});
+
+test("isHexColor only accepts the canonical form; toHexColor normalizes into it", () => {
+  assert.equal(isHexColor("#FF8800"), true);
+  assert.equal(isHexColor("#ff8800"), false);
+  assert.equal(isHexColor("#F80"), false);
+  assert.equal(toHexColor("#ff8800"), "#FF8800");
+  assert.equal(toHexColor("#f80"), "#FF8800");
+  assert.equal(toHexColor("#FF8800FF"), "#FF8800");
+  assert.equal(toHexColor("#FF880080"), undefined);
+  assert.equal(toHexColor("rgb(255 136 0)"), undefined);
+  assert.equal(toHexColor("#nothex"), undefined);
+  assert.equal(toHex(parseColor("rgb(255 0 0 / 50%)")), "#FF000080");
+});
+
+test("contrast ratios follow WCAG relative luminance", () => {
+  const white = parseColor("#fff");
+  const black = parseColor("#000");
+  const gray = parseColor("#767676");
+  assert.equal(contrastRatio(black, white), 21);
+  assert.equal(contrastRatio(white, black), 21);
+  assert.equal(contrastRatio(white, white), 1);
+  assert.equal(contrastRatio(gray, white), 4.54);
+  assert.equal(meetsContrast(gray, white), true);
+  assert.equal(meetsContrast(gray, white, "AAA"), false);
+  assert.equal(meetsContrast(gray, white, "AAA", "large"), true);
+  assert.equal(meetsContrast(parseColor("#f80"), white, "AA", "large"), false);
+});
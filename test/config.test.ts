@@ -0,0 +1,55 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { ConfigError, loadConfig } from "../config.js";
+
+const defaults = { host: "localhost", port: 3000, debug: false, retries: 1 };
+
+test("later layers win: defaults, file, env, cli, then update", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "config-test-"));
+  const file = path.join(dir, "config.json");
+  fs.writeFileSync(file, JSON.stringify({ host: "file.local", port: 4000, retries: 2 }));
+  try {
+    const config = loadConfig({
+      defaults,
+      file,
+      env: { APP_PORT: "5000", APP_RETRIES: "3" },
+      argv: ["--retries", "4"],
+    });
+    assert.deepEqual(config.getAll(), { host: "file.local", port: 5000, debug: false, retries: 4 });
+
+    config.update("port", 6000);
+    assert.equal(config.get("port"), 6000);
+    // Runtime overrides survive a reload of the other layers
+    config.reload();
+    assert.equal(config.get("port"), 6000);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+test("env and CLI strings are coerced to the type of each default", () => {
+  const config = loadConfig({
+    defaults,
+    env: { APP_DEBUG: "yes", APP_PORT: " 8080 " },
+    argv: ["--host=example.com", "--no-debug", "--retries", "5", "--debug", "extra.txt"],
+  });
+  // A boolean flag doesn't consume the next argument, so the later --debug wins
+  assert.deepEqual(config.getAll(), { host: "example.com", port: 8080, debug: true, retries: 5 });
+});
+
+test("values that don't coerce are all reported with their source", () => {
+  assert.throws(
+    () => loadConfig({ defaults, env: { APP_PORT: "eighty", APP_DEBUG: "maybe" }, argv: ["--retries="] }),
+    (e: unknown) => {
+      assert.ok(e instanceof ConfigError);
+      assert.deepEqual(
+        e.issues.map((i) => [i.key, i.source]),
+        [["port", "env"], ["debug", "env"], ["retries", "cli"]]
+      );
+      return true;
+    }
+  );
+});
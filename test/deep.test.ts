@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { applyPatch, deepFreeze, diff, PatchError } from "../deep.js";
+import type { JsonValue } from "../conditional-types.js";
+
+test("deepFreeze locks Map/Set entries and Date setters but keeps reads working", () => {
+  const tags = new Set([{ name: "a" }]);
+  const index = new Map([["k", { hits: 1 }]]);
+  const created = new Date(0);
+  const bytes = new Uint8Array([1, 2]);
+  const frozen = deepFreeze({ tags, index, created, bytes });
+
+  assert.throws(() => index.set("x", { hits: 0 }), TypeError);
+  assert.throws(() => index.delete("k"), /Cannot modify a frozen Map/);
+  assert.throws(() => tags.add({ name: "b" }), TypeError);
+  assert.throws(() => tags.clear(), TypeError);
+  assert.throws(() => created.setFullYear(2000), /Cannot modify a frozen Date/);
+  assert.ok(Object.isFrozen(index.get("k")));
+  assert.ok(Object.isFrozen([...tags][0]));
+
+  assert.equal(frozen.index.get("k")?.hits, 1);
+  assert.equal(frozen.tags.size, 1);
+  assert.equal(frozen.created.getTime(), 0);
+  // Typed arrays can't be frozen, so they are left writable rather than failing
+  bytes[0] = 9;
+  assert.equal(frozen.bytes[0], 9);
+});
+
+test("'-' appends to an array, but only where adding is allowed", () => {
+  const doc: JsonValue = { list: [1, 2] };
+  assert.deepEqual(applyPatch(doc, [{ op: "add", path: "/list/-", value: 3 }]), { list: [1, 2, 3] });
+  assert.deepEqual(applyPatch(doc, [{ op: "add", path: "/list/2", value: 3 }]), { list: [1, 2, 3] });
+  assert.throws(() => applyPatch(doc, [{ op: "remove", path: "/list/-" }]), PatchError);
+  assert.throws(() => applyPatch(doc, [{ op: "add", path: "/list/3", value: 4 }]), /out of bounds/);
+});
+
+test("a failed test aborts the whole patch and leaves the input alone", () => {
+  const doc: JsonValue = { version: 1, name: "a" };
+  assert.throws(
+    () =>
+      applyPatch(doc, [
+        { op: "replace", path: "/name", value: "b" },
+        { op: "test", path: "/version", value: 2 },
+        { op: "replace", path: "/version", value: 3 },
+      ]),
+    (e: unknown) => e instanceof PatchError && e.index === 1 && /test failed/.test(e.message)
+  );
+  assert.deepEqual(doc, { version: 1, name: "a" });
+});
+
+test("the root can be replaced or added to, never removed", () => {
+  assert.deepEqual(applyPatch({ a: 1 }, [{ op: "replace", path: "", value: [1, 2] }]), [1, 2]);
+  assert.equal(applyPatch({ a: 1 }, [{ op: "add", path: "", value: "new" }]), "new");
+  assert.throws(() => applyPatch({ a: 1 }, [{ op: "remove", path: "" }]), /cannot remove the root/);
+  assert.deepEqual(diff({ a: 1 }, [1]), [{ op: "replace", path: "", value: [1] }]);
+});
+
+test("applying a diff reproduces the target", () => {
+  const from: JsonValue = { "a/b": [1, 2, 3], "m~n": { x: 1 }, keep: true };
+  const to: JsonValue = { "a/b": [1, 5], "m~n": { y: 2 }, keep: true, extra: null };
+  const ops = diff(from, to);
+  assert.ok(ops.some((op) => op.path === "/a~1b/2"));
+  assert.deepEqual(applyPatch(from, ops), to);
+});
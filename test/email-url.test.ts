@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { assertEmail, InvalidInputError, isEmail, isSafeUrl, parseEmail, parseUrl } from "../email-url.js";
+
+test("IDN email domains are lowercased and converted to punycode", () => {
+  const result = parseEmail("Ada+news@Bücher.Example");
+  assert.ok(result.ok);
+  assert.deepEqual(result.value, {
+    address: "Ada+news@xn--bcher-kva.example",
+    local: "Ada+news",
+    domain: "bücher.example",
+    asciiDomain: "xn--bcher-kva.example",
+  });
+
+  // Only the punycode form is a ValidEmail
+  assert.equal(isEmail("Ada+news@xn--bcher-kva.example"), true);
+  assert.equal(isEmail("Ada+news@bücher.example"), false);
+  assert.throws(
+    () => assertEmail("ada@bücher.example"),
+    (e: unknown) => e instanceof InvalidInputError && /xn--bcher-kva\.example/.test(e.message)
+  );
+});
+
+test("IDN labels are checked after conversion", () => {
+  const long = parseEmail(`ada@${"ü".repeat(60)}.example`);
+  assert.ok(!long.ok);
+  assert.equal(long.error.code, "invalid-domain");
+
+  const parsed = parseEmail("ada@例え.テスト");
+  assert.ok(parsed.ok);
+  assert.equal(parsed.value.asciiDomain, "xn--r8jz45g.xn--zckzah");
+});
+
+test("IDN URL hosts come back in both forms", () => {
+  const result = parseUrl("https://Bücher.example/regal?x=1");
+  assert.ok(result.ok);
+  assert.equal(result.value.host, "xn--bcher-kva.example");
+  assert.equal(result.value.hostUnicode, "bücher.example");
+  assert.equal(result.value.href, "https://xn--bcher-kva.example/regal?x=1");
+  assert.equal(isSafeUrl("https://xn--bcher-kva.example/regal?x=1"), true);
+  assert.equal(isSafeUrl("https://bücher.example/regal?x=1"), false);
+});
@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createForm } from "../form.js";
+
+type Fields = { name: string };
+
+test("a validation started before reset doesn't land after it", async () => {
+  const resolvers: ((outcome: string | undefined) => void)[] = [];
+  const form = createForm<Fields>({
+    initialValues: { name: "" },
+    validators: { name: () => new Promise((resolve) => resolvers.push(resolve)) },
+  });
+
+  const stale = form.validateField("name");
+  form.reset();
+  assert.equal(form.getState().isValidating, false);
+  const fresh = form.validateField("name");
+
+  resolvers[0]?.("taken");
+  await stale;
+  assert.deepEqual(form.getState().errors, {});
+  assert.equal(form.getState().isValidating, true);
+
+  resolvers[1]?.(undefined);
+  assert.equal(await fresh, true);
+  assert.equal(form.getState().isValidating, false);
+});
@@ -0,0 +1,226 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getEventListeners } from "node:events";
+import { Deque, LinkedList, PriorityQueue, TypedEventEmitter } from "../generics.js";
+
+type Events = { data: (msg: string) => void };
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+test("a throwing listener doesn't skip the others and is rethrown after the loop", () => {
+  const emitter = new TypedEventEmitter<Events>();
+  const seen: string[] = [];
+  emitter.on("data", () => {
+    throw new Error("boom");
+  });
+  emitter.on("data", (msg) => seen.push(msg));
+
+  assert.throws(() => emitter.emit("data", "a"), /boom/);
+  assert.deepEqual(seen, ["a"]);
+});
+
+test("rejections from async listeners go to onError", async () => {
+  const emitter = new TypedEventEmitter<Events>();
+  const errors: unknown[] = [];
+  emitter.onError((err, event) => errors.push([event, (err as Error).message]));
+  emitter.on("data", async () => {
+    throw new Error("async boom");
+  });
+
+  emitter.emit("data", "a");
+  await tick();
+  assert.deepEqual(errors, [["data", "async boom"]]);
+});
+
+test("rejections from async listeners without onError become warnings, not unhandled rejections", async () => {
+  const emitter = new TypedEventEmitter<Events>();
+  const unhandled: unknown[] = [];
+  const warnings: string[] = [];
+  const record = (reason: unknown) => unhandled.push(reason);
+  const warn = (warning: Error) => warnings.push(warning.message);
+  process.on("unhandledRejection", record);
+  process.on("warning", warn);
+  try {
+    emitter.on("data", async () => {
+      throw new Error("async boom");
+    });
+    emitter.emit("data", "a");
+    await tick();
+    await tick();
+  } finally {
+    process.off("unhandledRejection", record);
+    process.off("warning", warn);
+  }
+  assert.deepEqual(unhandled, []);
+  assert.equal(warnings.length, 1);
+  assert.match(warnings[0] ?? "", /'data' listener.*async boom/);
+});
+
+test("emitAsync collects listener errors and reports them once all have run", async () => {
+  const emitter = new TypedEventEmitter<Events>();
+  const seen: string[] = [];
+  emitter.on("data", async () => {
+    throw new Error("first");
+  });
+  emitter.on("data", async (msg) => void seen.push(msg));
+
+  await assert.rejects(emitter.emitAsync("data", "a"), /first/);
+  assert.deepEqual(seen, ["a"]);
+});
+
+test("once, waitFor and wildcard listeners", async () => {
+  const emitter = new TypedEventEmitter<Events>();
+  const once: string[] = [];
+  const all: unknown[] = [];
+  emitter.once("data", (msg) => once.push(msg));
+  emitter.on("*", (...entry) => all.push(entry));
+  const next = emitter.waitFor("data");
+
+  emitter.emit("data", "a");
+  emitter.emit("data", "b");
+
+  assert.deepEqual(await next, ["a"]);
+  assert.deepEqual(once, ["a"]);
+  assert.deepEqual(all, [["data", "a"], ["data", "b"]]);
+});
+
+test("aborting a signal only removes the registration it was passed to", () => {
+  const emitter = new TypedEventEmitter<Events>();
+  const controller = new AbortController();
+  const cb = () => {};
+  emitter.on("data", cb, { signal: controller.signal });
+  emitter.off("data", cb);
+  emitter.on("data", cb);
+
+  controller.abort();
+  assert.equal(emitter.listenerCount("data"), 1);
+});
+
+test("unsubscribing detaches the abort listener from the signal", () => {
+  const emitter = new TypedEventEmitter<Events>();
+  const { signal } = new AbortController();
+
+  const cb = () => {};
+  emitter.on("data", cb, { signal });
+  emitter.off("data", cb);
+  assert.equal(getEventListeners(signal, "abort").length, 0);
+
+  const unsubscribe = emitter.on("data", () => {}, { signal });
+  unsubscribe();
+  assert.equal(getEventListeners(signal, "abort").length, 0);
+
+  emitter.once("data", () => {}, { signal });
+  emitter.emit("data", "a");
+  assert.equal(getEventListeners(signal, "abort").length, 0);
+  assert.equal(emitter.listenerCount("data"), 0);
+});
+
+test("events() yields argument tuples until the signal aborts", async () => {
+  const emitter = new TypedEventEmitter<Events>();
+  const controller = new AbortController();
+  const received: string[] = [];
+  const consumer = (async () => {
+    for await (const [msg] of emitter.events("data", { signal: controller.signal })) received.push(msg);
+  })();
+
+  emitter.emit("data", "a");
+  emitter.emit("data", "b");
+  await tick();
+  controller.abort();
+  await consumer;
+
+  assert.deepEqual(received, ["a", "b"]);
+  assert.equal(emitter.listenerCount("data"), 0);
+});
+
+test("events() applies the overflow policy when the buffer is full", async () => {
+  const emitter = new TypedEventEmitter<Events>();
+  const stream = emitter.events("data", { highWaterMark: 2, overflow: "drop-oldest" });
+  for (const msg of ["a", "b", "c"]) emitter.emit("data", msg);
+
+  assert.deepEqual((await stream.next()).value, ["b"]);
+  assert.deepEqual((await stream.next()).value, ["c"]);
+  await stream.return?.();
+  assert.equal(emitter.listenerCount("data"), 0);
+});
+
+test("removeNode unlinks a handle in place at the head, middle and tail", () => {
+  const list = new LinkedList<string>();
+  const a = list.add("a");
+  const b = list.add("b");
+  const c = list.add("c");
+  list.add("d");
+
+  assert.equal(list.removeNode(b), "b");
+  assert.equal(list.removeNode(a), "a");
+  assert.deepEqual(list.toArray(), ["c", "d"]);
+  assert.equal(list.removeNode(list.add("e")), "e");
+  assert.deepEqual([...list.reversed()], ["d", "c"]);
+  assert.equal(list.size(), 2);
+
+  // A removed handle (or one from another list) no longer belongs to this list
+  assert.throws(() => list.removeNode(b), /does not belong/);
+  assert.throws(() => LinkedList.fromArray(["c"]).removeNode(c), /does not belong/);
+});
+
+test("slice follows Array.prototype.slice, negative indexes included", () => {
+  const values = [1, 2, 3, 4, 5];
+  const list = LinkedList.fromArray(values);
+  const cases: [number?, number?][] = [[], [1], [1, 3], [-2], [-3, -1], [-10, 2], [2, -10], [3, 1], [0, 10]];
+  for (const [start, end] of cases) {
+    assert.deepEqual(list.slice(start, end).toArray(), values.slice(start, end), `slice(${start}, ${end})`);
+  }
+});
+
+test("updatePriority keeps heap order whether an item moves up or down", () => {
+  type Task = { name: string; priority: number };
+  const tasks: Task[] = [7, 3, 9, 1, 5, 8, 2, 6].map((priority) => ({ name: `t${priority}`, priority }));
+  const queue = new PriorityQueue<Task>((a, b) => a.priority - b.priority);
+  tasks.forEach((t) => queue.push(t));
+
+  const t9 = tasks[2]!;
+  t9.priority = 0; // mutated in place: sifts up
+  assert.equal(queue.updatePriority(t9), true);
+  const t1 = tasks[3]!;
+  assert.equal(queue.updatePriority(t1, { name: "t1", priority: 10 }), true); // replaced: sifts down
+  assert.equal(queue.updatePriority({ name: "missing", priority: 4 }), false);
+
+  const order: number[] = [];
+  for (let t = queue.pop(); t; t = queue.pop()) order.push(t.priority);
+  assert.deepEqual(order, [0, 2, 3, 5, 6, 7, 8, 10]);
+});
+
+test("a deque keeps its order when it grows while wrapped around", () => {
+  const deque = new Deque<number>(4);
+  const model: number[] = [];
+  const pushBack = (...values: number[]) => {
+    for (const n of values) {
+      deque.pushBack(n);
+      model.push(n);
+    }
+  };
+  const pushFront = (...values: number[]) => {
+    for (const n of values) {
+      deque.pushFront(n);
+      model.unshift(n);
+    }
+  };
+
+  pushBack(1, 2, 3);
+  deque.popFront();
+  deque.popFront();
+  model.splice(0, 2);
+  // The ring now wraps past the end of its buffer before it has to grow
+  pushBack(4, 5, 6);
+  pushFront(0, -1, -2);
+  pushBack(7, 8, 9, 10);
+
+  assert.deepEqual(deque.toArray(), model);
+  assert.deepEqual([...deque], model);
+  assert.equal(deque.size(), model.length);
+  assert.equal(deque.at(0), -2);
+  assert.equal(deque.at(model.length - 1), 10);
+  assert.equal(deque.popBack(), 10);
+  assert.equal(deque.popFront(), -2);
+  assert.equal(deque.peekFront(), -1);
+});
@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { h, HtmlError, raw, render, type Child } from "../html.js";
+
+test("text and attribute values are escaped; raw() is emitted verbatim", () => {
+  assert.equal(render(h("p", { title: '"<x>"' }, "a < b & c")), '<p title="&quot;&lt;x&gt;&quot;">a &lt; b &amp; c</p>');
+  assert.equal(render(h("div", null, raw("<b>bold</b>"))), "<div><b>bold</b></div>");
+  assert.equal(render(h("div", null, [h("span", null, "a"), ["b", null, false]])), "<div><span>a</span>b</div>");
+});
+
+test("a look-alike raw() object from untrusted data is rejected, not rendered as markup", () => {
+  const comment = JSON.parse('{"html": "<img src=x onerror=alert(1)>"}') as Child;
+  assert.throws(() => render(h("p", null, comment)), HtmlError);
+  assert.throws(() => render(comment), /Objects can't be children unless they come from h\(\) or raw\(\)/);
+});
+
+test("a look-alike element from untrusted data is rejected, not rendered as a tag", () => {
+  const element = JSON.parse('{"tag": "div", "attrs": {"onclick": "alert(1)"}, "children": []}') as Child;
+  assert.throws(() => render(h("div", null, element)), HtmlError);
+  // Having both shapes at once doesn't make it trusted either
+  const both = JSON.parse('{"tag": "span", "attrs": {}, "children": [], "html": "<script></script>"}') as Child;
+  assert.throws(() => render(h("div", null, both)), HtmlError);
+});
+
+test("other plain objects are rejected with HtmlError", () => {
+  assert.throws(() => render(h("div", null, {} as Child)), HtmlError);
+  assert.throws(() => render(h("div", null, { toString: () => "<b>" } as unknown as Child)), HtmlError);
+});
+
+test("copies of trusted objects lose their trust", () => {
+  assert.throws(() => render(h("div", null, { ...raw("<b>x</b>") })), HtmlError);
+  assert.throws(() => render(h("div", null, { ...h("span", null, "x") })), HtmlError);
+});
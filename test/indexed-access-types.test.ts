@@ -0,0 +1,132 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemoryStorage, Repository } from "../indexed-access-types.js";
+import type { StorageAdapter } from "../indexed-access-types.js";
+
+type Item = { id: number; name: string };
+
+// Saves can be made to fail, and every snapshot that did reach the backend is recorded
+class FlakyStorage implements StorageAdapter<Item> {
+  saved: Item[][] = [];
+  failNext = false;
+
+  async load(): Promise<Item[]> {
+    return this.saved.at(-1) ?? [];
+  }
+
+  async save(items: Item[]): Promise<void> {
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    if (this.failNext) {
+      this.failNext = false;
+      throw new Error("disk full");
+    }
+    this.saved.push(structuredClone(items));
+  }
+}
+
+test("direct writes wait for a running transaction instead of being lost", async () => {
+  const repo = new Repository<Item>();
+  await repo.create({ id: 1, name: "a" });
+
+  const tx = repo.transaction(async (t) => {
+    const item = t.get(1);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    t.update(1, { name: `${item?.name}!` });
+  });
+  const deleted = repo.delete(1);
+
+  await tx;
+  assert.equal(await deleted, true);
+  assert.equal(repo.get(1), undefined);
+});
+
+test("direct writes from inside a transaction are rejected instead of hanging", async () => {
+  const repo = new Repository<Item>();
+  await repo.create({ id: 1, name: "a" });
+
+  await repo.transaction(async (t) => {
+    await assert.rejects(repo.update(1, { name: "direct" }), /Write through the transaction/);
+    await assert.rejects(repo.transaction(async () => {}), /Write through the transaction/);
+    t.update(1, { name: "b" });
+  });
+  assert.equal(repo.get(1)?.name, "b");
+  assert.equal((await repo.update(1, { name: "c" })).name, "c");
+});
+
+test("a failed save rolls back without overwriting later writes", async () => {
+  const storage = new FlakyStorage();
+  const repo = new Repository<Item>({ storage });
+  await repo.create({ id: 1, name: "a" });
+
+  storage.failNext = true;
+  const failed = repo.transaction(async (t) => {
+    t.update(1, { name: "lost" });
+  });
+  const later = repo.update(1, { name: "b" });
+
+  await assert.rejects(failed, /disk full/);
+  await later;
+  assert.equal(repo.get(1)?.name, "b");
+  assert.deepEqual(storage.saved.at(-1), [{ id: 1, name: "b" }]);
+});
+
+test("a transaction that throws applies none of its writes", async () => {
+  const repo = new Repository<Item>({ storage: new MemoryStorage() });
+  await repo.create({ id: 1, name: "a" });
+  await assert.rejects(
+    repo.transaction(async (t) => {
+      t.update(1, { name: "b" });
+      t.create({ id: 2, name: "c" });
+      throw new Error("abort");
+    }),
+    /abort/
+  );
+  assert.equal(repo.get(1)?.name, "a");
+  assert.equal(repo.count(), 1);
+});
+
+test("a throwing subscriber doesn't fail a committed write", async () => {
+  const errors: unknown[] = [];
+  const repo = new Repository<Item>({ onSubscriberError: (error) => errors.push(error) });
+  const seen: string[] = [];
+  repo.subscribe(() => {
+    throw new Error("listener bug");
+  });
+  repo.subscribe((change) => seen.push(change.type));
+
+  assert.deepEqual(await repo.create({ id: 1, name: "a" }), { id: 1, name: "a" });
+  assert.deepEqual(seen, ["insert"]);
+  assert.equal(errors.length, 1);
+});
+
+test("a repository built with new loads its storage before the first write", async () => {
+  const storage = new MemoryStorage<Item>();
+  await storage.save([{ id: 1, name: "a" }]);
+  const repo = new Repository<Item>({ storage, indexes: ["name"] });
+
+  await repo.create({ id: 2, name: "b" });
+  assert.deepEqual(await storage.load(), [
+    { id: 1, name: "a" },
+    { id: 2, name: "b" },
+  ]);
+  assert.equal(repo.findByProperty("name", "a")?.id, 1);
+});
+
+test("a failed load rejects the write and is retried by the next one", async () => {
+  const storage = new FlakyStorage();
+  storage.saved.push([{ id: 1, name: "a" }]);
+  const load = storage.load.bind(storage);
+  let failures = 1;
+  storage.load = async () => {
+    if (failures-- > 0) throw new Error("unreadable");
+    return load();
+  };
+  const repo = new Repository<Item>({ storage });
+
+  await assert.rejects(repo.create({ id: 2, name: "b" }), /unreadable/);
+  await repo.create({ id: 2, name: "b" });
+  assert.deepEqual(storage.saved.at(-1), [
+    { id: 1, name: "a" },
+    { id: 2, name: "b" },
+  ]);
+});
@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { dateCodec, JsonError, mapCodec, parseJson, stringifyJson } from "../json.js";
+import { schema } from "../schema.js";
+
+const codecs = [dateCodec, mapCodec] as const;
+
+const jsonError = (kind: string, pointer: string) => (e: unknown) => {
+  assert.ok(e instanceof JsonError);
+  assert.equal(e.kind, kind);
+  assert.equal(e.pointer, pointer);
+  return true;
+};
+
+test("objects with their own $type keys round-trip next to real codec tags", () => {
+  const value = {
+    lookalike: { $type: "Date", value: "2024-01-01T00:00:00.000Z" },
+    escaped: { $$type: "already escaped", $type: "Map" },
+    when: new Date("2024-01-01T00:00:00.000Z"),
+    index: new Map([["a", new Date(0)]]),
+  };
+  const text = stringifyJson(value, { codecs });
+  assert.deepEqual(JSON.parse(text).lookalike, { $$type: "Date", value: "2024-01-01T00:00:00.000Z" });
+  assert.deepEqual(parseJson(text, undefined, { codecs }), value);
+});
+
+test("tags naming an unregistered codec, or with extra keys, stay plain objects", () => {
+  assert.deepEqual(parseJson('{"$type":"Date","value":"x","extra":1}', undefined, { codecs }), {
+    $type: "Date",
+    value: "x",
+    extra: 1,
+  });
+  assert.deepEqual(parseJson('{"$type":"Set","value":[]}', undefined, { codecs }), { $type: "Set", value: [] });
+  assert.throws(() => parseJson('{"a":[{"$type":"Date","value":"soon"}]}', undefined, { codecs }), jsonError("codec", "/a/0"));
+});
+
+test("only a reference back to an ancestor is a cycle", () => {
+  const shared = { n: 1 };
+  assert.equal(stringifyJson({ a: shared, b: [shared] }), '{"a":{"n":1},"b":[{"n":1}]}');
+
+  const parent: { child: { items: unknown[] } } = { child: { items: [] } };
+  parent.child.items.push(parent);
+  assert.throws(() => stringifyJson(parent as never), jsonError("cycle", "/child/items/0"));
+});
+
+test("errors point at the offending value with an escaped JSON Pointer", () => {
+  assert.throws(() => stringifyJson({ "a/b": { "c~d": [1, Number.NaN] } }), jsonError("non-finite", "/a~1b/c~0d/1"));
+  assert.throws(() => stringifyJson({ f: (() => 1) as never }), jsonError("unsupported", "/f"));
+  assert.throws(() => stringifyJson([1, , 3] as never), jsonError("unsupported", "/1"));
+  assert.throws(() => parseJson("{"), jsonError("syntax", ""));
+
+  const user = schema.object({ tags: schema.array(schema.string()) });
+  assert.throws(() => parseJson('{"tags":["a",2,3]}', user), (e: unknown) => {
+    jsonError("schema", "/tags/1")(e);
+    assert.match((e as JsonError).message, /\(and 1 more\)/);
+    return true;
+  });
+});
@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { del, delIn, get, has, set, setIn } from "../paths.js";
+
+type Loose = Record<string, unknown>;
+
+test("__proto__, constructor and prototype segments are rejected everywhere", () => {
+  const target: Loose = { nested: {} };
+  const attempts = ["__proto__.polluted", "constructor.prototype.polluted", "nested.__proto__.polluted", "nested.prototype"];
+  for (const path of attempts) {
+    const forbidden = /Forbidden segment/;
+    assert.throws(() => set(target, path as never, true as never), forbidden, path);
+    assert.throws(() => setIn(target, path as never, true as never), forbidden, path);
+    assert.throws(() => get(target, path as never), forbidden, path);
+    assert.throws(() => has(target, path as never), forbidden, path);
+    assert.throws(() => del(target, path as never), forbidden, path);
+    assert.throws(() => delIn(target, path as never), forbidden, path);
+  }
+  assert.equal(({} as Loose)["polluted"], undefined);
+  assert.equal(Object.hasOwn(Object.prototype, "polluted"), false);
+});
+
+test("lookups only follow own properties", () => {
+  const target: Loose = { list: [1] };
+  assert.equal(get(target, "toString" as never), undefined);
+  assert.equal(has(target, "hasOwnProperty" as never), false);
+  assert.equal(del(target, "valueOf" as never), false);
+});
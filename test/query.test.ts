@@ -0,0 +1,19 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseQuery, stringifyQuery } from "../query.js";
+
+test("percent-encoded brackets stay part of the key instead of nesting", () => {
+  assert.deepEqual(parseQuery("a%5Bb%5D=1&c[d]=2&e[f%5D]=3"), { "a[b]": "1", c: { d: "2" }, e: { "f]": "3" } });
+
+  // Keys that contain brackets survive a stringify/parse round trip
+  const input = { "a[b]": "1", c: { d: "2" } };
+  const text = stringifyQuery(input);
+  assert.equal(text, "a%5Bb%5D=1&c[d]=2");
+  assert.deepEqual(parseQuery(text), input);
+});
+
+test("encoded forbidden segments are still dropped once decoded", () => {
+  const parsed = parseQuery("%5F%5Fproto%5F%5F[polluted]=1&a[constructor]=2&ok=3");
+  assert.deepEqual(parsed, { a: {}, ok: "3" });
+  assert.equal(({} as Record<string, unknown>)["polluted"], undefined);
+});
@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { all, any, err, ok } from "../result.js";
+import type { Result } from "../result.js";
+
+// Compile-time checks: `expectType<Equal<A, B>>()` fails to type-check unless A and B are identical
+type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2 ? true : false;
+const expectType = <T extends true>() => {};
+
+const num = (text: string): Result<number, "nan"> => (Number.isNaN(Number(text)) ? err("nan") : ok(Number(text)));
+const word = (text: string): Result<string, "empty"> => (text ? ok(text) : err("empty"));
+
+test("all keeps per-element value types and returns the first error", () => {
+  const both = all([num("1"), word("a")]);
+  expectType<Equal<typeof both, Result<[number, string], "nan" | "empty">>>();
+  assert.deepEqual(both, ok([1, "a"]));
+
+  assert.deepEqual(all([num("1"), word(""), num("x")]), err("empty"));
+  assert.deepEqual(all([]), ok([]));
+});
+
+test("any returns the first value or every error, typed per element", () => {
+  const either = any([num("x"), word("")]);
+  expectType<Equal<typeof either, Result<number | string, ["nan", "empty"]>>>();
+  assert.deepEqual(either, err(["nan", "empty"]));
+
+  assert.deepEqual(any([num("x"), word("b"), num("2")]), ok("b"));
+});
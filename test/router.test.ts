@@ -0,0 +1,71 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RouteError, Router } from "../router.js";
+import type { Method } from "../router.js";
+
+function routerWith(routes: [Method, string][]) {
+  const router = new Router<string>();
+  for (const [method, pattern] of routes) router.on(method, pattern, () => pattern);
+  return router;
+}
+
+const matched = (router: Router<string>, method: Method, path: string) => {
+  const result = router.match(method, path);
+  return result.status === 200 ? [result.pattern, result.params] : result;
+};
+
+test("splitting a shared edge keeps the routes, params and children on both sides", () => {
+  const routes: [Method, string][] = [
+    ["GET", "/users"],
+    ["GET", "/users/:id"],
+    ["GET", "/user-groups"],
+    ["GET", "/us"],
+    ["GET", "/usage/*"],
+  ];
+  // Registration order decides which edges get split, not what matches
+  for (const order of [routes, [...routes].reverse()]) {
+    const router = routerWith(order);
+    assert.deepEqual(matched(router, "GET", "/users"), ["/users", {}]);
+    assert.deepEqual(matched(router, "GET", "/users/7"), ["/users/:id", { id: "7" }]);
+    assert.deepEqual(matched(router, "GET", "/user-groups"), ["/user-groups", {}]);
+    assert.deepEqual(matched(router, "GET", "/us"), ["/us", {}]);
+    assert.deepEqual(matched(router, "GET", "/usage/a/b"), ["/usage/*", { "*": "a/b" }]);
+    assert.deepEqual(matched(router, "GET", "/use"), { status: 404 });
+  }
+});
+
+test("a static branch that dead-ends falls back to a param, then to the wildcard", () => {
+  const router = routerWith([
+    ["GET", "/files/new"],
+    ["GET", "/files/:id/history"],
+    ["GET", "/files/*"],
+  ]);
+  assert.deepEqual(matched(router, "GET", "/files/new"), ["/files/new", {}]);
+  assert.deepEqual(matched(router, "GET", "/files/new/history"), ["/files/:id/history", { id: "new" }]);
+  // The param's value must not leak into the wildcard match
+  assert.deepEqual(matched(router, "GET", "/files/7/diff"), ["/files/*", { "*": "7/diff" }]);
+});
+
+test("each optional segment registers the route with and without it", () => {
+  const router = routerWith([["GET", "/posts/:id?/comments/:page?"]]);
+  assert.deepEqual(matched(router, "GET", "/posts/comments"), ["/posts/:id?/comments/:page?", {}]);
+  assert.deepEqual(matched(router, "GET", "/posts/comments/2"), ["/posts/:id?/comments/:page?", { page: "2" }]);
+  assert.deepEqual(matched(router, "GET", "/posts"), { status: 404 });
+  assert.deepEqual(matched(router, "GET", "/posts/3/comments"), ["/posts/:id?/comments/:page?", { id: "3" }]);
+  assert.deepEqual(matched(router, "GET", "/posts/3/comments/2"), ["/posts/:id?/comments/:page?", { id: "3", page: "2" }]);
+});
+
+test("405 lists the allowed methods in a fixed order; unknown paths are 404", () => {
+  const router = routerWith([
+    ["PUT", "/items/:id"],
+    ["GET", "/items/:id"],
+    ["DELETE", "/items/:id"],
+    ["GET", "/items/*"],
+  ]);
+  assert.deepEqual(router.match("POST", "/items/1"), { status: 405, allow: ["DELETE", "GET", "PUT"] });
+  assert.deepEqual(router.match("POST", "/items/1/2"), { status: 405, allow: ["GET"] });
+  assert.deepEqual(router.match("GET", "/nothing"), { status: 404 });
+
+  assert.throws(() => router.handle("PATCH", "/items/1"), (e: unknown) => e instanceof RouteError && e.status === 405);
+  assert.throws(() => router.handle("GET", "/nothing?x=1"), (e: unknown) => e instanceof RouteError && e.status === 404);
+});
@@ -0,0 +1,26 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { OptionalSchema, schema } from "../schema.js";
+import type { Infer } from "../schema.js";
+
+type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B ? 1 : 2 ? true : false;
+const expectType = <T extends true>() => {};
+
+test("refining an optional schema keeps it optional and skips missing values", () => {
+  const coupon = schema.string().optional().refine((v) => /^[A-Z]{4}$/.test(v), "must be four capital letters");
+  const order = schema.object({ id: schema.number(), coupon });
+  expectType<Equal<Infer<typeof order>, { id: number; coupon?: string }>>();
+
+  assert.ok(coupon instanceof OptionalSchema);
+  assert.deepEqual(order.parse({ id: 1 }), { id: 1 });
+  assert.deepEqual(order.parse({ id: 1, coupon: "SAVE" }), { id: 1, coupon: "SAVE" });
+  assert.deepEqual(order.validate({ id: 1, coupon: "10off" }), {
+    ok: false,
+    error: [{ path: ["coupon"], message: "must be four capital letters" }],
+  });
+  // The base check still runs before the predicate
+  assert.deepEqual(order.validate({ id: 1, coupon: 10 }), {
+    ok: false,
+    error: [{ path: ["coupon"], message: "expected string" }],
+  });
+});
@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parse, satisfies, SemVerError } from "../semver.js";
+
+// [range, versions that match, versions that don't], following npm's semantics
+type Case = [range: string, matches: string[], misses: string[]];
+
+function check(cases: Case[]) {
+  for (const [range, matches, misses] of cases) {
+    for (const version of matches) assert.equal(satisfies(parse(version), range), true, `${version} in "${range}"`);
+    for (const version of misses) assert.equal(satisfies(parse(version), range), false, `${version} not in "${range}"`);
+  }
+}
+
+test("caret ranges allow changes that don't touch the left-most non-zero part", () => {
+  check([
+    ["^1.2.3", ["1.2.3", "1.9.9"], ["1.2.2", "2.0.0"]],
+    ["^0.2.3", ["0.2.3", "0.2.9"], ["0.3.0", "0.2.2"]],
+    ["^0.0.3", ["0.0.3"], ["0.0.4", "0.1.0"]],
+    ["^0.0", ["0.0.0", "0.0.9"], ["0.1.0"]],
+    ["^1.x", ["1.0.0", "1.9.0"], ["2.0.0", "0.9.9"]],
+  ]);
+});
+
+test("tilde ranges allow patch changes, or minor ones when only the major is given", () => {
+  check([
+    ["~1.2.3", ["1.2.3", "1.2.9"], ["1.3.0", "1.2.2"]],
+    ["~1.2", ["1.2.0", "1.2.9"], ["1.3.0", "1.1.9"]],
+    ["~1", ["1.0.0", "1.9.9"], ["2.0.0"]],
+    ["~0.2.3", ["0.2.5"], ["0.3.0"]],
+  ]);
+});
+
+test("x-ranges and partial comparators cover every missing component", () => {
+  check([
+    ["1.x", ["1.0.0", "1.99.0"], ["0.9.9", "2.0.0"]],
+    ["1.2.*", ["1.2.0", "1.2.7"], ["1.3.0"]],
+    ["*", ["0.0.0", "3.4.5"], []],
+    ["", ["3.4.5"], []],
+    [">1.2", ["1.3.0"], ["1.2.9"]],
+    ["<=1.2", ["1.2.9"], ["1.3.0"]],
+    ["<1.2", ["1.1.9"], ["1.2.0"]],
+    ["> 1.2.3 < 1.3", ["1.2.4"], ["1.2.3", "1.3.0"]],
+  ]);
+});
+
+test("hyphen ranges are inclusive, and a partial upper bound covers its whole range", () => {
+  check([
+    ["1.2.3 - 2.3.4", ["1.2.3", "2.3.4"], ["1.2.2", "2.3.5"]],
+    ["1.2 - 2.3", ["1.2.0", "2.3.9"], ["1.1.9", "2.4.0"]],
+    ["1.2.3 - 2", ["2.9.9"], ["3.0.0"]],
+  ]);
+});
+
+test("|| matches when any comparator set does", () => {
+  check([["1.2.7 || >=1.2.9 <2.0.0", ["1.2.7", "1.2.9", "1.9.0"], ["1.2.8", "2.0.0"]]]);
+});
+
+test("pre-releases only match sets that name a pre-release of the same version", () => {
+  check([
+    ["^1.2.0", ["1.3.0"], ["1.3.0-beta", "2.0.0-0"]],
+    ["*", [], ["1.0.0-beta"]],
+    [">=1.3.0-alpha", ["1.3.0-beta", "1.4.0"], ["1.4.0-beta", "1.3.0-0"]],
+    ["^1.2.3-beta.2", ["1.2.3-beta.2", "1.2.3-beta.10", "1.2.4"], ["1.2.3-beta.1", "1.2.4-beta.2"]],
+  ]);
+});
+
+test("implied upper bounds are <x.y.z-0, so they exclude that version's pre-releases", () => {
+  check([
+    [">=2.0.0-alpha <2", [], ["2.0.0-alpha", "2.0.0-beta", "2.0.0"]],
+    [">=1.3.0-rc.1 <=1.2", [], ["1.3.0-rc.2"]],
+    [">=1.3.0-rc.1 <1.3.0", ["1.3.0-rc.2"], ["1.3.0"]],
+  ]);
+});
+
+test("invalid ranges throw", () => {
+  assert.throws(() => satisfies(parse("1.0.0"), "^1.2.3.4"), SemVerError);
+  assert.throws(() => satisfies(parse("1.0.0"), ">=one"), SemVerError);
+});
@@ -0,0 +1,75 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createMachine, TransitionError } from "../state-machine.js";
+
+const transitions = {
+  idle: ["loading"],
+  loading: ["success", "idle"],
+  success: ["idle"],
+} as const;
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+test("a rejecting guard leaves the state, hooks and listeners untouched", async () => {
+  const calls: string[] = [];
+  let allow = false;
+  const machine = createMachine({
+    initial: "idle",
+    context: {},
+    transitions,
+    guards: { "idle->loading": async () => allow },
+    onExit: { idle: () => calls.push("exit idle") },
+    onEnter: { loading: () => calls.push("enter loading") },
+  });
+  machine.on("transition", () => calls.push("transition"));
+
+  await assert.rejects(machine.transition("loading"), (e: unknown) => {
+    assert.ok(e instanceof TransitionError);
+    assert.match(e.message, /rejected by guard/);
+    return true;
+  });
+  assert.equal(machine.state, "idle");
+  assert.deepEqual(calls, []);
+
+  // The queue carries on after a rejection
+  allow = true;
+  await machine.transition("loading");
+  assert.equal(machine.state, "loading");
+  assert.deepEqual(calls, ["exit idle", "transition", "enter loading"]);
+});
+
+test("leaving a state aborts its invoked action, whose late errors aren't reported", async () => {
+  const errors: [unknown, string][] = [];
+  let signal: AbortSignal | undefined;
+  let fail!: (reason: Error) => void;
+  const machine = createMachine({
+    initial: "idle",
+    context: {},
+    transitions,
+    invoke: {
+      loading: (args) => {
+        signal = args.signal;
+        return new Promise<void>((_, reject) => (fail = reject));
+      },
+    },
+    onError: (error, state) => errors.push([error, state]),
+  });
+
+  const loading = await machine.transition("loading");
+  await tick();
+  assert.equal(signal?.aborted, false);
+
+  const idle = await loading.transition("idle");
+  assert.equal(signal?.aborted, true);
+  fail(new Error("cancelled fetch"));
+  await tick();
+  assert.deepEqual(errors, []);
+
+  // While the state is still active, the action's failure does reach onError
+  await idle.transition("loading");
+  await tick();
+  fail(new Error("network down"));
+  await tick();
+  assert.equal(errors.length, 1);
+  assert.equal(errors[0]?.[1], "loading");
+});
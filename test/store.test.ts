@@ -0,0 +1,20 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createActions } from "../store.js";
+
+type TodoAction = { type: "ADD"; payload: string } | { type: "CLEAR" };
+
+test("createActions builds a plain object with one creator per listed type", async () => {
+  const actions = createActions<TodoAction>(["ADD", "CLEAR"]);
+
+  assert.deepEqual(actions.ADD("milk"), { type: "ADD", payload: "milk" });
+  assert.deepEqual(actions.CLEAR(), { type: "CLEAR" });
+  assert.deepEqual(Object.keys(actions), ["ADD", "CLEAR"]);
+  assert.equal("then" in actions, false);
+  assert.equal(String(actions), "[object Object]");
+  // Not mistaken for a thenable
+  assert.equal(await actions, actions);
+
+  // @ts-expect-error: "REMOVE" isn't a TodoAction type
+  createActions<TodoAction>(["ADD", "REMOVE"]);
+});
@@ -0,0 +1,44 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { media, StyleSheet } from "../style.js";
+
+test("the same rule maps to the same class regardless of key order, and is emitted once", () => {
+  const sheet = new StyleSheet();
+  const once = new StyleSheet();
+  const a = sheet.style({ padding: "24px", color: "#333333", [media.prefersDark]: { color: "#EEEEEE" } });
+  const b = sheet.style({ [media.prefersDark]: { color: "#EEEEEE" }, color: "#333333", padding: "24px" });
+  once.style({ padding: "24px", color: "#333333", [media.prefersDark]: { color: "#EEEEEE" } });
+  assert.equal(a, b);
+  assert.match(a, /^css-[0-9a-z]+$/);
+  assert.equal(sheet.toString(), once.toString());
+});
+
+test("class names are stable across sheets and differ between rules", () => {
+  const first = new StyleSheet().style({ margin: "0", color: "#000000" });
+  const second = new StyleSheet().style({ color: "#000000", margin: "0" });
+  assert.equal(first, second);
+  assert.notEqual(new StyleSheet().style({ color: "#000000" }), new StyleSheet().style({ color: "#000001" }));
+  assert.notEqual(new StyleSheet().style({ margin: "0" }), new StyleSheet().style({ padding: "0" }));
+});
+
+test("labels and prefixes change the readable part but not the hash", () => {
+  const rule = { display: "flex" } as const;
+  const plain = new StyleSheet().style(rule);
+  const prefixed = new StyleSheet({ prefix: "ui" }).style(rule);
+  const sheet = new StyleSheet({ prefix: "ui" });
+  const labelled = sheet.style(rule, "row");
+  const hash = plain.slice("css-".length);
+  assert.equal(prefixed, `ui-${hash}`);
+  assert.equal(labelled, `row-${hash}`);
+  // A label gives its own class even when the rule is already registered
+  assert.equal(sheet.style(rule), `ui-${hash}`);
+  assert.equal(sheet.style(rule, "row"), labelled);
+});
+
+test("pxToRem changes the output but not the class name", () => {
+  const rule = { fontSize: "16px" } as const;
+  const rem = new StyleSheet({ pxToRem: true });
+  const name = rem.style(rule);
+  assert.equal(name, new StyleSheet().style(rule));
+  assert.equal(rem.toString(), `.${name}{font-size:1rem;}`);
+});